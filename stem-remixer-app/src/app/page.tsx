@@ -11,9 +11,37 @@ import {
   LuPlay,
   LuUpload,
   LuArrowRight,
+  LuDownload,
+  LuLayers,
+  LuSquare,
+  LuPiano,
+  LuAudioLines,
+  LuFilePlus,
+  LuFolderOpen,
+  LuSave,
+  LuRotateCcw,
+  LuRepeat,
+  LuUndo2,
+  LuChartGantt,
+  LuActivity,
+  LuBookmarkPlus,
+  LuTrash2,
+  LuCommand,
+  LuRedo2,
+  LuTriangleAlert,
+  LuCircle,
+  LuWandSparkles,
+  LuChevronDown,
+  LuChevronRight,
+  LuNetwork,
+  LuMap,
+  LuX,
 } from "react-icons/lu";
+import type { IconType } from "react-icons";
 import ReactFlow, {
+  addEdge,
   Background,
+  Connection,
   BackgroundVariant,
   Controls,
   Edge,
@@ -25,51 +53,491 @@ import ReactFlow, {
   useNodesState,
   EdgeProps,
   getBezierPath,
+  MiniMap,
 } from "reactflow";
 import "reactflow/dist/style.css";
 import WaveSurfer from "wavesurfer.js";
+import RegionsPlugin from "wavesurfer.js/dist/plugins/regions.esm.js";
+import {
+  ALL_KEYS,
+  AudioAnalysis,
+  beatTimes,
+  formatKey,
+  MusicalKey,
+  semitoneShift,
+  TempoKey,
+  tempoRatio,
+} from "@/lib/audio/analysis";
+import { decodeAudioUrl, forgetDecodedAudio, getAudioContext } from "@/lib/audio/context";
+import { applyEdits, EDIT_LABELS, EditOperation, EditType, TimeRange } from "@/lib/audio/edits";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  exportFileName,
+  ExportSettings,
+  formatExtension,
+  LoudnessAdjustment,
+  loadExportSettings,
+  renderExport,
+  saveExportSettings,
+} from "@/lib/audio/export";
+import {
+  EFFECT_OPTIONS,
+  defaultEffectParams,
+  EffectParams,
+  effectParamSpecs,
+  EffectParamSpec,
+  EffectType,
+  isEffectType,
+  renderEffect,
+  resolveEffectParams,
+} from "@/lib/audio/effects";
+import { deletePreset, savePreset } from "@/lib/audio/presets";
+import { useEffectPresets } from "@/lib/audio/usePresets";
+import {
+  ChannelSettings,
+  DEFAULT_CHANNEL,
+  effectiveGain,
+  gainToDb,
+  isChannelAudible,
+  MAX_GAIN,
+} from "@/lib/audio/mixer";
+import { combineInputs, mixdownTracks } from "@/lib/audio/mixdown";
+import { computePeaks } from "@/lib/audio/peaks";
+import { alignTake, getActiveRecording, RecordingSession, startRecording } from "@/lib/audio/recorder";
+import { getTransport, LoopRegion } from "@/lib/audio/transport";
+import { meterFraction, toDb } from "@/lib/audio/metering";
+import { useLevelFollower } from "@/lib/audio/useMeter";
+import { usePlayhead, useTransportSnapshot } from "@/lib/audio/useTransport";
+import { analyzeAudio, applyMatch } from "@/lib/audio/dsp";
+import { encodeWav } from "@/lib/audio/wav";
+import {
+  collectOrphanedDownstream,
+  collectUpstream,
+  incomingSources,
+  resolveRootNode,
+  resolveRootNodes,
+  upstreamPath,
+  wouldCreateCycle,
+} from "@/lib/graph";
+import { Command, formatShortcut, useKeyboardShortcuts } from "@/lib/commands";
+import { CoverRecipe, loadCoverRecipe, saveCoverRecipe, stemRecipe } from "@/lib/cover";
+import { useHistory } from "@/lib/useHistory";
+import { useEventCallback } from "@/lib/useEventCallback";
+import { getMidiController, MidiTarget, useMidi } from "@/lib/midi";
+import { assignRoots, boundsOf, layoutGraph, loadAutoLayout, placeAddedNodes, saveAutoLayout } from "@/lib/layout";
+import {
+  clearSession,
+  createZip,
+  exportProjectFile,
+  forgetAudioUrl,
+  importProjectFile,
+  loadSession,
+  PROJECT_FILE_EXTENSION,
+  ProjectState,
+  restoreProject,
+  saveSession,
+  snapshotProject,
+  ZipEntry,
+} from "@/lib/project";
+import {
+  DEFAULT_STYLE_PARAMS,
+  RAVE_MODELS,
+  runRaveStyleTransfer,
+  StyleTransferParams,
+} from "@/lib/styleTransfer";
+import {
+  checkFile,
+  checkStats,
+  DEFAULT_BACKEND_ID,
+  DEFAULT_PREFLIGHT_SETTINGS,
+  getJobManager,
+  getSeparationBackend,
+  getStemCache,
+  getStemColor,
+  getStemSet,
+  InputStats,
+  inspectAudioFile,
+  isJobActive,
+  loadPreflightSettings,
+  PreflightSettings,
+  prepareForSeparation,
+  savePreflightSettings,
+  SeparatedStem,
+  SEPARATION_BACKENDS,
+  separationCacheKey,
+  useSeparationJob,
+} from "@/lib/separation";
+import CommandPalette from "@/components/CommandPalette";
+import ExportMenu from "@/components/ExportMenu";
+import CoverRecipeEditor from "@/components/CoverRecipeEditor";
+import InputChecks from "@/components/InputChecks";
+import JobsPanel, { formatJobStatus } from "@/components/JobsPanel";
+import MidiPanel, { MidiTargetOption } from "@/components/MidiPanel";
+import StemCache from "@/components/StemCache";
+import { InputMeter, LevelMeter, LoudnessMeter, ScopeMode, SpectrumView } from "@/components/Meters";
+import Timeline, { TimelineLane } from "@/components/Timeline";
 
 // =================== TYPES ===================
 
 interface SourceNodeData {
+  id: string;
   label: string;
   file?: File;
   audioUrl?: string;
+  jobId?: string;
+  analysis?: AudioAnalysis;
+  analyzing?: boolean;
+  stats?: InputStats;
+  inputError?: string; // why this song can't be separated as it is
+  checking?: boolean;
+  preparing?: boolean; // converting for upload
+  coverStage?: CoverStage; // injected at render time while a cover of this song is being made
+  cancelCover?: () => void; // injected alongside `coverStage`
+  collapsed?: boolean; // its group on the canvas is folded down to this node
+  replaceFile: (id: string, file: File) => void;
+  separate: (id: string) => void;
+  makeCover: (id: string) => void;
 }
 
-interface StemNodeData {
+interface PlayableNodeData {
+  id: string;
   label: string;
   audioUrl?: string;
   color: string;
-  icon: JSX.Element;
-  id: string;
   loading?: boolean;
-  playingStems: string[];
-  setPlayingStems: React.Dispatch<React.SetStateAction<string[]>>;
-  registerWaveSurfer: (id: string, ws: WaveSurfer | null) => void;
-  markReady: (id: string) => void;
-  addTransformNode: (parentId: string, effect: string) => void; // ✅ new
+  offset?: number; // start on the arrangement timeline, in seconds
+  channel?: ChannelSettings; // injected at render time from the mixer state
+  audible?: boolean;
+}
+
+// Nodes whose output can feed further transforms.
+interface ChainableNodeData extends PlayableNodeData {
+  addTransformNode: (parentId: string, transform: TransformType) => void; // ✅ new
+  exportAudio: (id: string) => Promise<void>;
+}
+
+interface StemNodeData extends ChainableNodeData {
+  sourceId: string;
+  sourceUrl?: string; // separated audio before edits; `audioUrl` is the edited result
+  edits?: EditOperation[];
+  updateEdits: (id: string, edits: EditOperation[]) => void;
+  song?: string; // name of the source song, shown when several songs share the canvas
+  take?: number; // set on stems recorded with a Record node instead of separated
+  jobId?: string;
+  error?: string;
+  cancelled?: boolean; // its separation was cancelled before it finished
+  updateChannel: (id: string, patch: Partial<ChannelSettings>) => void;
+  retrySeparation: (jobId: string) => void;
+}
+
+interface RecordNodeData {
+  id: string;
+  label: string;
+  part: string; // what is being recorded; names and colours the takes
+  latencyMs?: number; // manual correction on top of the measured latency
+  measuredLatencyMs?: number;
+  takeCount?: number;
+  recording?: boolean;
+  error?: string;
+  backingCount?: number; // injected at render time: selected stems played along
+  startTake: (id: string) => void;
+  stopTake: (id: string) => void;
+  updateRecordSettings: (id: string, patch: Partial<Pick<RecordNodeData, "part" | "latencyMs">>) => void;
+}
+
+interface TransformEffectNodeData extends ChainableNodeData {
+  effect: EffectType;
+  params?: EffectParams; // missing keys use the effect's defaults
+  error?: string;
+  updateEffectParams: (id: string, params: EffectParams) => void;
+  auditionDry: (id: string, dry: boolean) => void;
+}
+
+interface StyleTransferNodeData extends ChainableNodeData {
+  params: StyleTransferParams;
+  progress?: number;
+  error?: string;
+  updateStyleParams: (id: string, patch: Partial<StyleTransferParams>) => void;
+  runStyleTransfer: (id: string) => void;
+}
+
+interface MatchNodeData extends ChainableNodeData {
+  target: TempoKey;
+  error?: string;
+  updateMatchTarget: (id: string, target: TempoKey) => void;
+  // Injected at render time: tempo/key of the input and of every analyzed song.
+  input?: TempoKey;
+  songs?: { id: string; name: string; tempoKey: TempoKey }[];
+}
+
+interface MixdownNodeData extends PlayableNodeData {
+  fileName: string;
+  trackCount: number;
 }
 
-interface TransformEffectNodeData {
+// Frame drawn behind a song and everything that only it feeds; built at render time, never stored.
+interface SongGroupNodeData {
+  sourceId: string;
   label: string;
-  effect: string;
-  color: string;
+  collapsed: boolean;
+  hiddenCount: number;
+  toggleGroup: (sourceId: string) => void;
+}
+
+type CustomNodeData =
+  | SourceNodeData
+  | RecordNodeData
+  | StemNodeData
+  | TransformEffectNodeData
+  | StyleTransferNodeData
+  | MatchNodeData
+  | MixdownNodeData;
+
+type TransformType = EffectType | "styleTransfer" | "match";
+
+// "Song → cover" runs as a chain of ordinary nodes; each stage waits for the graph to fill in.
+type CoverStage = "separating" | "transforming" | "mixing";
+
+interface CoverRun {
+  sourceId: string;
+  stage: CoverStage;
+  controller: AbortController;
+}
+
+// A queued separation can take a while; a run still going after this is stuck.
+const COVER_TIMEOUT_MS = 30 * 60 * 1000;
+
+const COVER_STAGE_LABELS: Record<CoverStage, string> = {
+  separating: "Separating stems…",
+  transforming: "Applying the recipe…",
+  mixing: "Mixing the cover…",
+};
+
+const isTransformType = (value: string): value is TransformType =>
+  value === "styleTransfer" || value === "match" || isEffectType(value);
+
+// Every transform offered by the node pickers and the command palette.
+const TRANSFORM_OPTIONS: { value: TransformType; label: string }[] = [
+  ...EFFECT_OPTIONS,
+  { value: "styleTransfer", label: "Style Transfer (RAVE)" },
+  { value: "match", label: "Match tempo & key" },
+];
+
+// Node types that take a stem (or another transform) as input and render audio.
+const TRANSFORM_NODE_TYPES = ["transformEffect", "styleTransfer", "match"];
+
+// Transform nodes rendered locally whenever their inputs or settings change.
+const AUTO_RENDER_TYPES = ["transformEffect", "match"];
+
+const TRANSFORM_COLORS: Record<string, string> = {
+  effect: "#a855f7",
+  styleTransfer: "#06b6d4",
+  match: "#f59e0b",
+};
+
+const STEM_ICONS: Record<string, IconType> = {
+  Drums: LuDrum,
+  Bass: LuMusic,
+  Other: LuGuitar,
+  Vocals: LuMic,
+  Accompaniment: LuLayers,
+  Guitar: LuGuitar,
+  Piano: LuPiano,
+};
+
+const StemIcon: React.FC<{ label: string; className?: string; color?: string }> = ({ label, className, color }) => {
+  const Icon = STEM_ICONS[label] ?? LuAudioLines;
+  return <Icon className={className} style={{ color }} />;
+};
+
+const stemNodeId = (sourceId: string, label: string) => `${sourceId}-stem-${label.toLowerCase()}`;
+
+// Parts a Record node can capture; the take is labelled (and coloured) like a separated stem.
+const RECORD_PARTS = ["Vocals", "Guitar", "Bass", "Piano", "Drums", "Other"];
+
+const songName = (file: File) => file.name.replace(/\.[^.]+$/, "");
+
+const takeName = (data: StemNodeData) => (data.take ? `Take ${data.take}` : undefined);
+
+// Short name of what a transform node does; undefined for anything else.
+const transformName = (node: Node): string | undefined =>
+  node.type === "transformEffect"
+    ? (node.data as TransformEffectNodeData).effect
+    : node.type === "styleTransfer"
+      ? "RAVE"
+      : node.type === "match"
+        ? "match"
+        : undefined;
+
+// Name of a stem or transform output in the timeline and the command palette.
+const outputLabel = (node: Node) => {
+  const data = node.data as PlayableNodeData;
+  const suffix =
+    transformName(node) ?? (node.data as StemNodeData).song ?? takeName(node.data as StemNodeData);
+  return suffix ? `${data.label} · ${suffix}` : data.label;
+};
+
+// Some browsers read the blob after `click()` returns, so the URL outlives it.
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+// =================== EXPORT ===================
+
+// Stem and transform nodes with rendered audio.
+const exportableNodes = (nodes: Node[]) =>
+  nodes.filter(
+    (n) =>
+      (n.type === "stemNode" || TRANSFORM_NODE_TYPES.includes(n.type ?? "")) &&
+      (n.data as PlayableNodeData).audioUrl &&
+      !(n.data as PlayableNodeData).loading
+  );
+
+// Song and stem at the top of the node's chain, then each transform on the way down.
+const exportNameParts = (nodeId: string, nodes: Node[], edges: Edge[]) => {
+  const chain = upstreamPath(nodeId, edges)
+    .map((id) => nodes.find((n) => n.id === id))
+    .filter((n): n is Node => n !== undefined);
+  const stem = chain.find((n) => n.type === "stemNode")?.data as StemNodeData | undefined;
+  return [
+    stem?.song ?? "recording",
+    stem ? [stem.label, takeName(stem)].filter(Boolean).join(" ") : "",
+    ...chain.map((n) => transformName(n)).filter((name): name is string => name !== undefined),
+  ];
+};
+
+// "Vocals.wav", "Vocals (2).wav", … for outputs that would share a name.
+const uniqueFileName = (name: string, taken: Set<string>) => {
+  const dot = name.lastIndexOf(".");
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name.slice(0, dot)} (${n})${name.slice(dot)}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+// What a node contributed to an export, for the manifest. Audio and callbacks are left out.
+const manifestNode = (node: Node) => {
+  const base = { id: node.id, type: node.type, label: (node.data as { label?: string }).label };
+  switch (node.type) {
+    case "sourceNode": {
+      const data = node.data as SourceNodeData;
+      return {
+        ...base,
+        file: data.file?.name,
+        tempoKey: data.analysis ? { bpm: data.analysis.bpm, key: data.analysis.key } : undefined,
+      };
+    }
+    case "recordNode":
+      return { ...base, part: (node.data as RecordNodeData).part };
+    case "stemNode": {
+      const data = node.data as StemNodeData;
+      return { ...base, song: data.song, take: data.take, offset: data.offset, edits: data.edits };
+    }
+    case "transformEffect": {
+      const data = node.data as TransformEffectNodeData;
+      return { ...base, effect: data.effect, params: data.params, offset: data.offset };
+    }
+    case "styleTransfer": {
+      const data = node.data as StyleTransferNodeData;
+      return { ...base, params: data.params, offset: data.offset };
+    }
+    case "match": {
+      const data = node.data as MatchNodeData;
+      return { ...base, target: data.target, offset: data.offset };
+    }
+    default:
+      return base;
+  }
+};
+
+// Everything undo/redo steps between.
+interface EditorSnapshot {
+  nodes: Node[];
+  edges: Edge[];
+  mixer: Record<string, ChannelSettings>;
+  selectedStems: string[];
+}
+
+const isSameSnapshot = (a: EditorSnapshot, b: EditorSnapshot) =>
+  a.nodes === b.nodes && a.edges === b.edges && a.mixer === b.mixer && a.selectedStems === b.selectedStems;
+
+// Whether any node other than `exceptId` plays `url` or renders from it.
+const usesAudioUrl = (nodeList: Node[], url: string, exceptId?: string) =>
+  nodeList.some((node) => {
+    const data = node.data as PlayableNodeData & { sourceUrl?: string };
+    return (node.id !== exceptId && data.audioUrl === url) || data.sourceUrl === url;
+  });
+
+const releaseAudioUrl = (url: string) => {
+  forgetDecodedAudio(url);
+  forgetAudioUrl(url);
+  URL.revokeObjectURL(url);
+};
+
+// Node data the user edits directly. Undo steps these back on nodes that
+// still exist and leaves the rest live (renders, loading flags, separation
+// results), so undoing never throws away finished work.
+const EDITABLE_DATA_KEYS: Record<string, string[]> = {
+  sourceNode: ["file", "audioUrl", "analysis", "stats", "inputError", "jobId"],
+  recordNode: ["part", "latencyMs"],
+  stemNode: ["edits", "offset"],
+  transformEffect: ["params", "offset"],
+  styleTransfer: ["params", "offset"],
+  match: ["target", "offset"],
+};
+
+interface RenderPlan {
+  signature: string;
+  inputs?: string[];
+  render?: (source: AudioBuffer) => Promise<AudioBuffer>;
 }
 
-type CustomNodeData = SourceNodeData | StemNodeData | TransformEffectNodeData;
+// =================== TEMPO / KEY ===================
+
+// Tempo and key of the audio a node outputs: the analysis of its song, or
+// the target of the nearest Match node upstream.
+const tempoKeyOf = (nodeId: string, nodes: Node[], edges: Edge[]): TempoKey | undefined => {
+  const rootId = resolveRootNode(nodeId, nodes, edges, ["sourceNode", "match"]);
+  const root = nodes.find((n) => n.id === rootId);
+  if (root?.type === "match") return (root.data as MatchNodeData).target;
+  const analysis = (root?.data as SourceNodeData | undefined)?.analysis;
+  return analysis && { bpm: analysis.bpm, key: analysis.key };
+};
+
+// The stems whose audio reaches `nodeId`. A node fed by one stem uses that
+// stem's channel strip; one mixing several has no strip of its own, plays at
+// unity and stays audible while any of its stems is.
+const channelIdsOf = (nodeId: string, nodes: Node[], edges: Edge[]) =>
+  resolveRootNodes(nodeId, nodes, edges, ["stemNode"]);
 
-const EDGE_COLORS: Record<string, string> = {
-  Drums: "#f59e0b",
-  Bass: "#3b82f6",
-  Other: "#10b981",
-  Vocals: "#ef4444",
+const isAudibleThrough = (channelIds: string[], mixer: Record<string, ChannelSettings>) =>
+  channelIds.length === 0 || channelIds.some((id) => isChannelAudible(id, mixer));
+
+const matchInputOf = (nodeId: string, nodes: Node[], edges: Edge[]): TempoKey | undefined => {
+  const upstream = incomingSources(nodeId, edges)[0];
+  return upstream ? tempoKeyOf(upstream, nodes, edges) : undefined;
 };
 
+const analyzedSongs = (nodes: Node[]) =>
+  nodes.flatMap((n) => {
+    const data = n.data as SourceNodeData;
+    if (n.type !== "sourceNode" || !data.analysis) return [];
+    return [{ id: n.id, name: data.file ? songName(data.file) : data.label, tempoKey: { bpm: data.analysis.bpm, key: data.analysis.key } }];
+  });
+
 // =================== CUSTOM EDGE ===================
 
 const MusicEdge: React.FC<EdgeProps> = ({
   id,
+  source,
+  target,
   sourceX,
   sourceY,
   targetX,
@@ -87,19 +555,37 @@ const MusicEdge: React.FC<EdgeProps> = ({
     sourcePosition,
     targetPosition,
   });
+  const pathRef = React.useRef<SVGPathElement | null>(null);
+  const strokeWidth = animated ? 3 : 2;
+  const filter = animated ? "drop-shadow(0 0 8px rgba(255,255,255,0.6))" : "none";
+
+  // Pulse with the signal leaving the source (or entering the target when the
+  // source isn't on the transport, e.g. the original song), written straight to the path.
+  useLevelFollower([source, target], (levels) => {
+    const path = pathRef.current;
+    if (!path) return;
+    if (!levels) {
+      path.style.strokeWidth = `${strokeWidth}`;
+      path.style.filter = filter;
+      return;
+    }
+    const level = meterFraction(toDb(levels.rms));
+    path.style.strokeWidth = `${2 + level * 6}`;
+    path.style.filter = `drop-shadow(0 0 ${2 + level * 12}px ${style?.stroke || "#fff"})`;
+  });
 
   return (
     <path
+      ref={pathRef}
       id={id}
       d={edgePath}
       style={{
         stroke: style?.stroke || "#aaa",
-        strokeWidth: animated ? 3 : 2,
+        strokeWidth,
         opacity: animated ? 1 : 0.4,
-        filter: animated
-          ? "drop-shadow(0 0 8px rgba(255,255,255,0.6))"
-          : "none",
-        transition: "all 0.3s ease",
+        filter,
+        // Width and glow follow the level every frame; only fade the opacity.
+        transition: "opacity 0.3s ease",
       }}
       className="react-flow__edge-path"
     />
@@ -108,11 +594,116 @@ const MusicEdge: React.FC<EdgeProps> = ({
 
 const edgeTypes = { musicEdge: MusicEdge };
 
+// =================== CONTROLS ===================
+
+interface KnobProps {
+  value: number;
+  min: number;
+  max: number;
+  defaultValue: number;
+  color: string;
+  onChange: (value: number) => void;
+}
+
+// Drag up/down to turn, double-click to reset.
+const Knob: React.FC<KnobProps> = ({ value, min, max, defaultValue, color, onChange }) => {
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const startY = e.clientY;
+    const startValue = value;
+    const target = e.currentTarget;
+    target.setPointerCapture(e.pointerId);
+
+    const handleMove = (move: PointerEvent) => {
+      const delta = ((startY - move.clientY) / 100) * (max - min);
+      onChange(Math.min(max, Math.max(min, startValue + delta)));
+    };
+    const handleUp = () => {
+      target.removeEventListener("pointermove", handleMove);
+      target.removeEventListener("pointerup", handleUp);
+    };
+    target.addEventListener("pointermove", handleMove);
+    target.addEventListener("pointerup", handleUp);
+  };
+
+  const angle = -135 + ((value - min) / (max - min)) * 270;
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onDoubleClick={() => onChange(defaultValue)}
+      className="nodrag w-8 h-8 rounded-full bg-neutral-800 border border-neutral-600 relative cursor-ns-resize"
+    >
+      <div
+        className="absolute left-1/2 top-1 w-0.5 h-3 -ml-px rounded origin-[50%_12px]"
+        style={{ background: color, transform: `rotate(${angle}deg)` }}
+      />
+    </div>
+  );
+};
+
+// Beat ticks across the whole song, with every fourth beat (bar line) brighter.
+const BeatGrid: React.FC<{ analysis: AudioAnalysis }> = ({ analysis }) => (
+  <svg viewBox="0 0 1000 16" preserveAspectRatio="none" className="mt-2 w-full h-4 rounded bg-neutral-800">
+    {beatTimes(analysis).map((time, i) => {
+      const x = (time / analysis.duration) * 1000;
+      const isBar = i % 4 === 0;
+      return (
+        <line
+          key={i}
+          x1={x}
+          x2={x}
+          y1={isBar ? 0 : 8}
+          y2={16}
+          stroke={isBar ? "#e5e7eb" : "#6b7280"}
+          strokeWidth={isBar ? 1.5 : 0.75}
+          vectorEffect="non-scaling-stroke"
+        />
+      );
+    })}
+  </svg>
+);
+
+const KeySelect: React.FC<{ value: MusicalKey; onChange: (key: MusicalKey) => void; className: string }> = ({
+  value,
+  onChange,
+  className,
+}) => (
+  <select
+    value={formatKey(value)}
+    onChange={(e) => onChange(ALL_KEYS.find((key) => formatKey(key) === e.target.value) ?? value)}
+    className={className}
+  >
+    {ALL_KEYS.map((key) => (
+      <option key={formatKey(key)} value={formatKey(key)}>
+        {formatKey(key)}
+      </option>
+    ))}
+  </select>
+);
+
 // =================== NODES ===================
 
+// Duration, format and level of an upload as measured by the pre-flight check.
+const InputStatsLine: React.FC<{ stats: InputStats }> = ({ stats }) => {
+  const channels = stats.channels === 1 ? "mono" : stats.channels === 2 ? "stereo" : `${stats.channels} ch`;
+  return (
+    <div className="mt-2 text-[11px] text-gray-400 tabular-nums">
+      {formatTime(stats.duration)} · {(stats.sampleRate / 1000).toFixed(1)} kHz · {channels} · peak{" "}
+      {Number.isFinite(stats.peakDb) ? `${stats.peakDb.toFixed(1)} dBFS` : "-∞"}
+      {stats.clipped && (
+        <span className="ml-1 px-1 rounded bg-amber-900 text-amber-200" title="Many samples at full scale">
+          clipping
+        </span>
+      )}
+    </div>
+  );
+};
+
 const SourceNode: React.FC<NodeProps<SourceNodeData>> = ({ data }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const audioRef = React.useRef<HTMLAudioElement | null>(null);
+  const job = useSeparationJob(data.jobId);
+  const isSeparating = job ? isJobActive(job) : false;
 
   const handlePlayPause = () => {
     if (!audioRef.current) return;
@@ -125,8 +716,52 @@ const SourceNode: React.FC<NodeProps<SourceNodeData>> = ({ data }) => {
       <Handle type="source" position={Position.Right} style={{ background: "#fff" }} />
       <div className="text-base font-semibold text-white">{data.label}</div>
 
-      {data.file && (
-        <div className="mt-1 text-xs text-gray-300 truncate">{data.file.name}</div>
+      <label className="nodrag mt-2 flex items-center gap-2 rounded border border-neutral-700 px-2 py-1 text-xs
+                        text-gray-300 hover:border-neutral-500 transition cursor-pointer">
+        <LuUpload className="shrink-0 text-gray-400" />
+        <span className="truncate">{data.file ? data.file.name : "Choose a song"}</span>
+        <input
+          type="file"
+          accept="audio/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) data.replaceFile(data.id, file);
+          }}
+          className="hidden"
+        />
+      </label>
+
+      {data.checking && (
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs text-gray-400">
+          <LuLoader className="animate-spin" /> Checking file…
+        </div>
+      )}
+      {data.stats && <InputStatsLine stats={data.stats} />}
+      {data.inputError && (
+        <div className="mt-2 flex items-start gap-2 rounded bg-red-950/60 border border-red-800 p-2 text-left text-xs text-red-300">
+          <LuTriangleAlert className="mt-0.5 shrink-0" />
+          <span>{data.inputError}</span>
+        </div>
+      )}
+      {data.analyzing && (
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs text-gray-400">
+          <LuLoader className="animate-spin" /> Detecting tempo & key…
+        </div>
+      )}
+      {data.analysis && (
+        <>
+          <div className="mt-2 flex justify-center gap-2 text-xs text-gray-200">
+            <span className="px-2 py-0.5 rounded bg-neutral-800">{data.analysis.bpm.toFixed(1)} BPM</span>
+            <span
+              className="px-2 py-0.5 rounded bg-neutral-800"
+              title={`Confidence ${Math.round(Math.max(0, data.analysis.keyConfidence) * 100)}%`}
+            >
+              {formatKey(data.analysis.key)}
+            </span>
+          </div>
+          <BeatGrid analysis={data.analysis} />
+        </>
       )}
 
       {data.audioUrl && (
@@ -140,431 +775,3186 @@ const SourceNode: React.FC<NodeProps<SourceNodeData>> = ({ data }) => {
           </button>
         </>
       )}
+
+      <button
+        onClick={() => data.separate(data.id)}
+        disabled={!data.file || isSeparating || data.checking || data.preparing || Boolean(data.inputError)}
+        className="mt-2 p-2 w-full rounded bg-emerald-600 text-white text-sm hover:bg-emerald-500 transition
+                   disabled:bg-neutral-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        {data.preparing ? (
+          <span className="flex items-center justify-center gap-2">
+            <LuLoader className="animate-spin" />
+            Converting…
+          </span>
+        ) : isSeparating && job ? (
+          <span className="flex items-center justify-center gap-2">
+            <LuLoader className="animate-spin" />
+            {formatJobStatus(job)}
+          </span>
+        ) : (
+          "Separate"
+        )}
+      </button>
+      <button
+        onClick={() => data.makeCover(data.id)}
+        disabled={!data.file || Boolean(data.coverStage) || Boolean(data.inputError)}
+        className="mt-2 p-2 w-full rounded bg-neutral-800 text-white text-sm hover:bg-neutral-700 transition
+                   flex items-center justify-center gap-2 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        {data.coverStage ? (
+          <>
+            <LuLoader className="animate-spin" /> {COVER_STAGE_LABELS[data.coverStage]}
+          </>
+        ) : (
+          <>
+            <LuWandSparkles /> Song → cover
+          </>
+        )}
+      </button>
+      {data.coverStage && (
+        <button
+          onClick={() => data.cancelCover?.()}
+          className="mt-1 p-1 w-full rounded text-xs text-gray-400 hover:text-white hover:bg-neutral-800 transition
+                     flex items-center justify-center gap-1"
+        >
+          <LuX /> Cancel cover
+        </button>
+      )}
     </div>
   );
 };
 
-const StemNode: React.FC<NodeProps<StemNodeData>> = ({ data }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [selectedEffect, setSelectedEffect] = useState("");
+// ✅ Record a take over the selected stems; each take becomes a stem node of its own
+const RecordNode: React.FC<NodeProps<RecordNodeData>> = ({ data }) => {
+  const color = getStemColor(data.part);
+  const analyser = data.recording ? (getActiveRecording()?.analyser ?? null) : null;
+  const backingCount = data.backingCount ?? 0;
+
+  return (
+    <div
+      className="bg-neutral-900 border rounded-xl shadow-lg p-4 w-72 text-center relative"
+      style={{ borderColor: data.recording ? "#ef4444" : color }}
+    >
+      <Handle type="source" position={Position.Right} style={{ background: "#fff" }} />
+
+      <div className="flex items-center justify-center gap-2 mb-3 text-sm font-medium text-white">
+        <LuMic style={{ color }} />
+        <span>{data.label}</span>
+      </div>
+
+      <div className="nodrag space-y-2 text-xs text-gray-300">
+        <label className="flex items-center justify-between gap-2">
+          Part
+          <select
+            value={data.part}
+            onChange={(e) => data.updateRecordSettings(data.id, { part: e.target.value })}
+            disabled={data.recording}
+            className="flex-1 max-w-[140px] bg-neutral-800 border border-neutral-600 rounded p-1 text-white"
+          >
+            {RECORD_PARTS.map((part) => (
+              <option key={part} value={part}>
+                {part}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2" title="Added to the measured latency">
+          Latency nudge
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              step={1}
+              value={data.latencyMs ?? 0}
+              onChange={(e) => data.updateRecordSettings(data.id, { latencyMs: Number(e.target.value) || 0 })}
+              className="w-16 bg-neutral-800 border border-neutral-600 rounded p-1 text-right text-white"
+            />
+            ms
+          </span>
+        </label>
+        {data.measuredLatencyMs !== undefined && (
+          <p className="text-[10px] text-gray-500 text-left">Measured round trip: {data.measuredLatencyMs} ms</p>
+        )}
+        <InputMeter analyser={analyser} color={color} />
+      </div>
+
+      <p className="mt-2 text-[11px] text-gray-400">
+        {backingCount > 0
+          ? `Plays ${backingCount} selected stem${backingCount === 1 ? "" : "s"} as backing`
+          : "No backing track: select stems in Sync Control"}
+      </p>
+
+      {data.error && (
+        <div className="mt-2 flex items-start gap-2 rounded bg-red-950/60 border border-red-800 p-2 text-left text-xs text-red-300">
+          <LuTriangleAlert className="shrink-0 mt-0.5" />
+          <span>{data.error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={() => (data.recording ? data.stopTake(data.id) : data.startTake(data.id))}
+        className={`mt-3 w-full p-2 rounded flex items-center justify-center gap-2 text-sm font-medium text-white transition ${
+          data.recording ? "bg-red-600 hover:bg-red-500" : "bg-neutral-800 hover:bg-neutral-700"
+        }`}
+      >
+        {data.recording ? (
+          <>
+            <LuSquare className="animate-pulse" /> Stop take
+          </>
+        ) : (
+          <>
+            <LuCircle className="text-red-500" fill="currentColor" /> Record take {(data.takeCount ?? 0) + 1}
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+// ✅ Shared waveform + transport registration for stem and transform nodes
+const usePlayableWaveform = (data: PlayableNodeData) => {
+  const [isReady, setIsReady] = useState(false);
   const waveformRef = React.useRef<HTMLDivElement | null>(null);
   const wavesurfer = React.useRef<WaveSurfer | null>(null);
+  const { state, activeIds } = useTransportSnapshot();
+  const isPlaying = state === "playing" && activeIds.includes(data.id);
+  const offset = data.offset ?? 0;
+  const offsetRef = React.useRef(offset);
+  offsetRef.current = offset;
+
+  // The track outlives audio changes so a re-render swaps in without stopping playback.
+  useEffect(() => () => getTransport().unregister(data.id), [data.id]);
 
   useEffect(() => {
-    if (data.audioUrl && waveformRef.current) {
-      wavesurfer.current = WaveSurfer.create({
-        container: waveformRef.current,
-        waveColor: "rgba(255,255,255,0.3)",
-        progressColor: data.color,
-        cursorColor: "transparent",
-        barWidth: 2,
-        barRadius: 2,
-        responsive: true,
-        height: 50,
-        normalize: true,
-        barGap: 2,
-      });
+    const transport = getTransport();
+    if (!data.audioUrl) {
+      transport.unregister(data.id);
+      return;
+    }
+    if (!waveformRef.current) return;
+    const container = waveformRef.current;
+    let cancelled = false;
+
+    decodeAudioUrl(data.audioUrl)
+      .then((buffer) => {
+        if (cancelled) return;
+        transport.register(data.id, buffer, offsetRef.current);
+
+        // The waveform is display-only: it draws the transport's decoded buffer
+        // instead of fetching and decoding the file a second time.
+        wavesurfer.current = WaveSurfer.create({
+          container,
+          peaks: [computePeaks(buffer)],
+          duration: buffer.duration,
+          waveColor: "rgba(255,255,255,0.3)",
+          progressColor: data.color,
+          cursorColor: "transparent",
+          barWidth: 2,
+          barRadius: 2,
+          height: 50,
+          normalize: true,
+          barGap: 2,
+        });
+        wavesurfer.current.setTime(Math.max(0, transport.getPosition() - offsetRef.current));
+        wavesurfer.current.on("interaction", (time) => transport.seek(time + offsetRef.current));
+        setIsReady(true);
+      })
+      .catch((err) => console.error("Failed to load audio:", err));
+
+    return () => {
+      cancelled = true;
+      wavesurfer.current?.destroy();
+      wavesurfer.current = null;
+      setIsReady(false);
+    };
+  }, [data.id, data.audioUrl, data.color]);
+
+  const channel = data.channel ?? DEFAULT_CHANNEL;
+  const audible = data.audible ?? true;
+  useEffect(() => {
+    if (isReady) getTransport().setChannel(data.id, audible ? channel.gain : 0, channel.pan);
+  }, [data.id, channel.gain, channel.pan, audible, isReady]);
+
+  useEffect(() => {
+    if (isReady) getTransport().setOffset(data.id, offset);
+  }, [data.id, offset, isReady]);
+
+  // Follow the global playhead without re-rendering the node every frame.
+  useEffect(() => {
+    if (!isReady) return;
+    const transport = getTransport();
+    // The waveform shows the clip's own time, so shift the global playhead by its offset.
+    const syncPlayhead = () => wavesurfer.current?.setTime(Math.max(0, transport.getPosition() - offsetRef.current));
+    syncPlayhead();
+    if (state !== "playing") return transport.subscribe(syncPlayhead);
+
+    let frame = requestAnimationFrame(function tick() {
+      syncPlayhead();
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [state, isReady]);
+
+  const handlePlayPause = () => {
+    const transport = getTransport();
+    if (isPlaying) {
+      transport.pause();
+    } else {
+      // Auditioning a single node replaces whatever else was playing.
+      transport.play([data.id]);
+    }
+  };
+
+  return { waveformRef, wavesurfer, isPlaying, handlePlayPause, isReady };
+};
+
+const LOOP_REGION_ID = "transport-loop";
+
+// ✅ Drag-select a region on a waveform; the shared transport loop is drawn on top
+const useRegionSelection = (
+  wavesurfer: React.RefObject<WaveSurfer | null>,
+  isReady: boolean,
+  color: string,
+  offset: number
+) => {
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const regionsRef = React.useRef<RegionsPlugin | null>(null);
+  const { loop } = useTransportSnapshot();
+
+  useEffect(() => {
+    const ws = wavesurfer.current;
+    if (!isReady || !ws) return;
+    const regions = ws.registerPlugin(RegionsPlugin.create());
+    regionsRef.current = regions;
+    const disableDragSelection = regions.enableDragSelection({ color: `${color}40` });
+
+    // One selection at a time: a new drag replaces the previous one.
+    regions.on("region-created", (region) => {
+      if (region.id === LOOP_REGION_ID) return;
+      regions.getRegions().forEach((r) => r !== region && r.id !== LOOP_REGION_ID && r.remove());
+      setSelection({ start: region.start, end: region.end });
+    });
+    regions.on("region-updated", (region) => {
+      if (region.id !== LOOP_REGION_ID) setSelection({ start: region.start, end: region.end });
+    });
+
+    // This only re-runs when the waveform is rebuilt, which destroys its plugins too.
+    return () => {
+      disableDragSelection();
+      regionsRef.current = null;
+      setSelection(null);
+    };
+  }, [wavesurfer, isReady, color]);
+
+  useEffect(() => {
+    const regions = regionsRef.current;
+    if (!regions) return;
+    regions.getRegions().find((r) => r.id === LOOP_REGION_ID)?.remove();
+    if (!loop) return;
+    // The loop is in timeline time; the waveform shows this clip's own time.
+    const region = regions.addRegion({
+      id: LOOP_REGION_ID,
+      start: Math.max(0, loop.start - offset),
+      end: Math.max(0, loop.end - offset),
+      color: "rgba(34,197,94,0.15)",
+      drag: false,
+      resize: false,
+    });
+    // Let drags pass through so a selection can start inside the loop.
+    if (region.element) region.element.style.pointerEvents = "none";
+  }, [loop, isReady, offset]);
+
+  const clearSelection = () => {
+    regionsRef.current?.getRegions().forEach((r) => r.id !== LOOP_REGION_ID && r.remove());
+    setSelection(null);
+  };
+
+  return { selection, clearSelection, loop };
+};
+
+const REGION_EDITS: EditType[] = ["trim", "cut", "duplicate", "fadeIn", "fadeOut"];
+
+// ✅ Non-destructive edit buttons for the selected region
+const RegionToolbar: React.FC<{
+  data: StemNodeData;
+  selection: TimeRange | null;
+  loop: LoopRegion | null;
+  onApplied: () => void;
+}> = ({ data, selection, loop, onApplied }) => {
+  const edits = data.edits ?? [];
+  const chip = "px-2 py-1 rounded text-[10px] font-medium transition disabled:opacity-40 disabled:cursor-not-allowed";
+
+  const addEdit = (type: EditType) => {
+    if (!selection) return;
+    data.updateEdits(data.id, [...edits, { type, ...selection }]);
+    onApplied();
+  };
+
+  const toggleLoop = () => {
+    if (selection) {
+      const offset = data.offset ?? 0;
+      getTransport().setLoop({ start: selection.start + offset, end: selection.end + offset });
+      onApplied();
+    } else {
+      getTransport().setLoop(null);
+    }
+  };
+
+  return (
+    <div className="nodrag mt-1 flex flex-wrap justify-center gap-1">
+      {REGION_EDITS.map((type) => (
+        <button
+          key={type}
+          onClick={() => addEdit(type)}
+          disabled={!selection}
+          className={`${chip} bg-neutral-800 text-gray-200 hover:bg-neutral-700`}
+        >
+          {EDIT_LABELS[type]}
+        </button>
+      ))}
+      <button
+        onClick={toggleLoop}
+        disabled={!selection && !loop}
+        title={selection ? "Loop the selection" : "Clear the loop"}
+        className={`${chip} flex items-center gap-1 ${
+          loop ? "bg-emerald-700 text-white hover:bg-emerald-600" : "bg-neutral-800 text-gray-200 hover:bg-neutral-700"
+        }`}
+      >
+        <LuRepeat /> {selection || !loop ? "Loop" : "Unloop"}
+      </button>
+      <button
+        onClick={() => data.updateEdits(data.id, edits.slice(0, -1))}
+        disabled={edits.length === 0}
+        title="Undo last edit"
+        className={`${chip} bg-neutral-800 text-gray-200 hover:bg-neutral-700`}
+      >
+        <LuUndo2 />
+      </button>
+      {edits.length > 0 && (
+        <button
+          onClick={() => data.updateEdits(data.id, [])}
+          className={`${chip} bg-neutral-800 text-gray-400 hover:bg-neutral-700`}
+        >
+          Reset ({edits.length})
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ✅ Post-fader meter with a scope toggle: off → spectrum → spectrogram.
+const SCOPE_MODES: (ScopeMode | null)[] = [null, "spectrum", "spectrogram"];
+
+const NodeMeters: React.FC<{ id: string; color: string }> = ({ id, color }) => {
+  const [scope, setScope] = useState<ScopeMode | null>(null);
+  const nextScope = SCOPE_MODES[(SCOPE_MODES.indexOf(scope) + 1) % SCOPE_MODES.length];
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <LevelMeter id={id} color={color} />
+        </div>
+        <button
+          onClick={() => setScope(nextScope)}
+          title={nextScope ? `Show ${nextScope}` : "Hide scope"}
+          className="p-1 rounded hover:bg-white/10 transition text-xs"
+          style={{ color: scope ? color : undefined }}
+        >
+          <LuActivity />
+        </button>
+      </div>
+      {scope && (
+        <div className="mt-1">
+          <SpectrumView id={id} color={color} mode={scope} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ✅ Effect dropdown + button that spawns a downstream transform node
+const TransformPicker: React.FC<{ onAdd: (transform: TransformType) => void; tone?: string }> = ({
+  onAdd,
+  tone = "bg-neutral-800 border-neutral-600",
+}) => {
+  const [selectedEffect, setSelectedEffect] = useState("");
+
+  const handleTransformClick = () => {
+    if (!isTransformType(selectedEffect)) {
+      return alert("Please select an effect first!");
+    }
+    onAdd(selectedEffect);
+    setSelectedEffect(""); // reset dropdown
+  };
+
+  return (
+    <div className="mt-3 flex gap-2 items-center">
+      <select
+        className={`nodrag flex-1 border rounded p-1 text-sm text-white ${tone}`}
+        value={selectedEffect}
+        onChange={(e) => setSelectedEffect(e.target.value)}
+      >
+        <option value="">Select effect</option>
+        {TRANSFORM_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleTransformClick}
+        className="p-2 bg-purple-600 rounded hover:bg-purple-500 transition text-white"
+      >
+        <LuArrowRight />
+      </button>
+    </div>
+  );
+};
+
+const StemNode: React.FC<NodeProps<StemNodeData>> = ({ data }) => {
+  const { waveformRef, wavesurfer, isPlaying, handlePlayPause, isReady } = usePlayableWaveform(data);
+  const { selection, clearSelection, loop } = useRegionSelection(
+    wavesurfer,
+    isReady,
+    data.color,
+    data.offset ?? 0
+  );
+  const job = useSeparationJob(data.jobId);
+  const channel = data.channel ?? DEFAULT_CHANNEL;
+  const audible = data.audible ?? true;
+
+  return (
+    <div
+      className="bg-neutral-900 border rounded-xl shadow-lg p-4 w-80 text-center relative"
+      style={{ borderColor: data.color }}
+    >
+      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
+      <Handle type="source" position={Position.Right} style={{ background: "#fff" }} />
+
+      <div className="flex items-center justify-center gap-2 mb-2 text-sm font-medium text-white">
+        <StemIcon label={data.label} />
+        <span>{data.label}</span>
+        {(data.song || data.take) && (
+          <span className="text-xs font-normal text-gray-400 truncate max-w-[140px]">
+            · {data.song ?? takeName(data)}
+          </span>
+        )}
+      </div>
+
+      {data.loading && (
+        <div className="flex items-center justify-center gap-2 text-xs text-gray-400">
+          <LuLoader className="animate-spin" />
+          {job ? formatJobStatus(job) : "Separating…"}
+        </div>
+      )}
+      {data.cancelled && (
+        <div className="flex items-center gap-2 rounded bg-neutral-800 border border-neutral-700 p-2 text-left text-xs text-gray-300">
+          <span className="flex-1">Separation cancelled.</span>
+          {data.jobId && job && (
+            <button
+              onClick={() => data.retrySeparation(data.jobId!)}
+              className="p-1 rounded bg-neutral-700 hover:bg-neutral-600 text-white"
+              title="Separate again"
+            >
+              <LuRotateCcw />
+            </button>
+          )}
+        </div>
+      )}
+      {data.error && (
+        <div className="flex items-center gap-2 rounded bg-red-950/60 border border-red-800 p-2 text-left text-xs text-red-300">
+          <span className="flex-1 line-clamp-2" title={data.error}>
+            Separation failed: {data.error}
+          </span>
+          {data.jobId && job && (
+            <button
+              onClick={() => data.retrySeparation(data.jobId!)}
+              className="p-1 rounded bg-red-900 hover:bg-red-800 text-white"
+              title="Retry"
+            >
+              <LuRotateCcw />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div ref={waveformRef} className="nodrag w-full h-12 my-2"></div>
+      {data.audioUrl && <NodeMeters id={data.id} color={data.color} />}
+
+      {data.audioUrl && (
+        <RegionToolbar data={data} selection={selection} loop={loop} onApplied={clearSelection} />
+      )}
+
+      {data.audioUrl && (
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={handlePlayPause}
+            className="flex-1 p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition text-white"
+          >
+            {isPlaying ? <LuPause style={{ color: data.color }} /> : <LuPlay style={{ color: data.color }} />}
+          </button>
+          <ExportButton data={data} tone="bg-neutral-800 hover:bg-neutral-700" />
+        </div>
+      )}
+
+      {/* ✅ Mixer Strip */}
+      {data.audioUrl && (
+        <div className={`mt-3 flex items-center gap-3 ${audible ? "" : "opacity-50"}`}>
+          <div className="flex-1 text-left">
+            <input
+              type="range"
+              min={0}
+              max={MAX_GAIN}
+              step={0.01}
+              value={channel.gain}
+              onChange={(e) => data.updateChannel(data.id, { gain: Number(e.target.value) })}
+              onDoubleClick={() => data.updateChannel(data.id, { gain: DEFAULT_CHANNEL.gain })}
+              className="nodrag w-full"
+              style={{ accentColor: data.color }}
+            />
+            <div className="text-[10px] text-gray-400">{gainToDb(channel.gain)}</div>
+          </div>
+          <div className="flex flex-col items-center">
+            <Knob
+              value={channel.pan}
+              min={-1}
+              max={1}
+              defaultValue={DEFAULT_CHANNEL.pan}
+              color={data.color}
+              onChange={(pan) => data.updateChannel(data.id, { pan })}
+            />
+            <div className="text-[10px] text-gray-400">
+              {channel.pan === 0 ? "C" : `${Math.round(Math.abs(channel.pan) * 100)}${channel.pan < 0 ? "L" : "R"}`}
+            </div>
+          </div>
+          <button
+            onClick={() => data.updateChannel(data.id, { mute: !channel.mute })}
+            className={`w-7 h-7 rounded text-xs font-bold transition ${
+              channel.mute ? "bg-red-600 text-white" : "bg-neutral-800 text-gray-400 hover:bg-neutral-700"
+            }`}
+          >
+            M
+          </button>
+          <button
+            onClick={() => data.updateChannel(data.id, { solo: !channel.solo })}
+            className={`w-7 h-7 rounded text-xs font-bold transition ${
+              channel.solo ? "bg-yellow-500 text-black" : "bg-neutral-800 text-gray-400 hover:bg-neutral-700"
+            }`}
+          >
+            S
+          </button>
+        </div>
+      )}
+
+      {/* ✅ Transform Dropdown + Button */}
+      <TransformPicker onAdd={(transform) => data.addTransformNode(data.id, transform)} />
+    </div>
+  );
+};
+
+// Slider moves re-render the effect once they settle for this long.
+const PARAM_COMMIT_DELAY_MS = 250;
+
+const formatParam = (spec: EffectParamSpec, value: number) =>
+  `${spec.step < 1 ? value.toFixed(2) : Math.round(value)}${spec.unit ? ` ${spec.unit}` : ""}`;
+
+const EffectControls: React.FC<{ data: TransformEffectNodeData }> = ({ data }) => {
+  const committed = resolveEffectParams(data.effect, data.params);
+  const committedKey = JSON.stringify(committed);
+  const [draft, setDraft] = useState(committed);
+  const [presetName, setPresetName] = useState("");
+  const commitTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const presets = useEffectPresets(data.effect);
+
+  // Follow changes made outside the sliders (presets, project restore).
+  useEffect(() => {
+    setDraft(JSON.parse(committedKey));
+  }, [committedKey]);
+
+  useEffect(() => () => {
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+  }, []);
+
+  const setParam = (key: string, value: number) => {
+    const next = { ...draft, [key]: value };
+    setDraft(next);
+    setPresetName("");
+    if (commitTimer.current) clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => data.updateEffectParams(data.id, next), PARAM_COMMIT_DELAY_MS);
+  };
+
+  const loadPreset = (name: string) => {
+    setPresetName(name);
+    const preset = presets.find((p) => p.name === name);
+    if (preset) data.updateEffectParams(data.id, resolveEffectParams(data.effect, preset.params));
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt("Preset name", presetName)?.trim();
+    if (!name) return;
+    savePreset({ name, effect: data.effect, params: draft });
+    setPresetName(name);
+  };
+
+  return (
+    <div className="mt-2 space-y-1 text-left text-xs">
+      {effectParamSpecs(data.effect).map((spec) => (
+        <label key={spec.key} className="block">
+          <span className="flex justify-between">
+            {spec.label}
+            <span className="tabular-nums opacity-70">{formatParam(spec, draft[spec.key])}</span>
+          </span>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={draft[spec.key]}
+            onChange={(e) => setParam(spec.key, Number(e.target.value))}
+            onDoubleClick={() => setParam(spec.key, spec.default)}
+            className="nodrag w-full accent-purple-400"
+          />
+        </label>
+      ))}
+
+      <div className="flex items-center gap-1 pt-1">
+        <select
+          value={presetName}
+          onChange={(e) => loadPreset(e.target.value)}
+          className="nodrag flex-1 min-w-0 bg-purple-950 border border-purple-700 rounded p-1"
+        >
+          <option value="">{presets.length > 0 ? "Presets…" : "No presets"}</option>
+          {presets.map((preset) => (
+            <option key={preset.name} value={preset.name}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleSavePreset} title="Save as preset" className="p-1.5 rounded bg-purple-800 hover:bg-purple-700">
+          <LuBookmarkPlus />
+        </button>
+        {presetName && (
+          <button
+            onClick={() => {
+              deletePreset(data.effect, presetName);
+              setPresetName("");
+            }}
+            title={`Delete preset "${presetName}"`}
+            className="p-1.5 rounded bg-purple-800 hover:bg-purple-700"
+          >
+            <LuTrash2 />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Downloads this node's output in the format chosen in the export settings.
+const ExportButton: React.FC<{ data: ChainableNodeData; tone: string }> = ({ data, tone }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await data.exportAudio(data.id);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleExport}
+      disabled={exporting}
+      title="Export audio"
+      className={`p-2 rounded transition text-white flex items-center disabled:opacity-50 ${tone}`}
+    >
+      {exporting ? <LuLoader className="animate-spin" /> : <LuDownload />}
+    </button>
+  );
+};
+
+// A/B compare: B swaps the dry input onto this node's transport track, so the
+// comparison keeps the node's fader, pan and playhead.
+const CompareToggle: React.FC<{ data: TransformEffectNodeData }> = ({ data }) => {
+  const [dry, setDry] = useState(false);
+
+  // A fresh render is registered wet again.
+  useEffect(() => setDry(false), [data.audioUrl]);
+
+  const select = (nextDry: boolean) => {
+    if (nextDry === dry) return;
+    setDry(nextDry);
+    data.auditionDry(data.id, nextDry);
+  };
+
+  return (
+    <div className="flex rounded overflow-hidden border border-purple-700 text-xs" title="Compare with the dry input">
+      {[false, true].map((option) => (
+        <button
+          key={String(option)}
+          onClick={() => select(option)}
+          className={`px-2 ${dry === option ? "bg-purple-600" : "bg-purple-950 hover:bg-purple-800"}`}
+        >
+          {option ? "B" : "A"}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const TransformEffectNode: React.FC<NodeProps<TransformEffectNodeData>> = ({ data }) => {
+  const { waveformRef, isPlaying, handlePlayPause } = usePlayableWaveform(data);
+
+  return (
+    <div className="bg-purple-900 border border-purple-500 rounded-lg shadow-md p-3 w-64 text-white">
+      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
+      <Handle type="source" position={Position.Right} style={{ background: data.color }} />
+      <div className="text-sm font-semibold mb-1">🎨 {data.effect}</div>
+      <p className="text-xs opacity-80">Effect applied to {data.label}</p>
+
+      <EffectControls data={data} />
+
+      {data.loading && (
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs opacity-80">
+          <LuLoader className="animate-spin" /> Rendering…
+        </div>
+      )}
+      {data.error && <p className="mt-2 text-xs text-red-300">{data.error}</p>}
+      {!data.loading && !data.audioUrl && !data.error && (
+        <p className="mt-2 text-xs opacity-60">Connect an input to render.</p>
+      )}
+
+      <div ref={waveformRef} className="w-full h-12 my-2"></div>
+      {data.audioUrl && <NodeMeters id={data.id} color={data.color} />}
+
+      {data.audioUrl && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handlePlayPause}
+            className="flex-1 p-2 rounded bg-purple-800 hover:bg-purple-700 transition text-white"
+          >
+            {isPlaying ? <LuPause /> : <LuPlay />}
+          </button>
+          <ExportButton data={data} tone="bg-purple-800 hover:bg-purple-700" />
+          <CompareToggle data={data} />
+        </div>
+      )}
+
+      <TransformPicker
+        onAdd={(transform) => data.addTransformNode(data.id, transform)}
+        tone="bg-purple-950 border-purple-700"
+      />
+    </div>
+  );
+};
+
+const StyleTransferNode: React.FC<NodeProps<StyleTransferNodeData>> = ({ data }) => {
+  const { waveformRef, isPlaying, handlePlayPause } = usePlayableWaveform(data);
+  const { params } = data;
+
+  const setOffset = (index: number, value: number) =>
+    data.updateStyleParams(data.id, {
+      latentOffsets: params.latentOffsets.map((offset, i) => (i === index ? value : offset)),
+    });
+
+  return (
+    <div className="bg-cyan-950 border border-cyan-500 rounded-lg shadow-md p-3 w-72 text-white">
+      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
+      <Handle type="source" position={Position.Right} style={{ background: data.color }} />
+      <div className="text-sm font-semibold mb-1">🧬 Style Transfer</div>
+      <p className="text-xs opacity-80 mb-2">RAVE timbre applied to {data.label}</p>
+
+      <div className="space-y-2 text-left text-xs">
+        <select
+          value={params.model}
+          onChange={(e) => data.updateStyleParams(data.id, { model: e.target.value })}
+          disabled={data.loading}
+          className="nodrag w-full bg-cyan-900 border border-cyan-700 rounded p-1 text-sm"
+        >
+          {RAVE_MODELS.map((model) => (
+            <option key={model.value} value={model.value}>
+              {model.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="block">
+          Temperature {params.temperature.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.05}
+            value={params.temperature}
+            onChange={(e) => data.updateStyleParams(data.id, { temperature: Number(e.target.value) })}
+            disabled={data.loading}
+            className="nodrag w-full accent-cyan-400"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-x-3">
+          {params.latentOffsets.map((offset, i) => (
+            <label key={i} className="block">
+              z{i} {offset >= 0 ? "+" : ""}
+              {offset.toFixed(1)}
+              <input
+                type="range"
+                min={-3}
+                max={3}
+                step={0.1}
+                value={offset}
+                onChange={(e) => setOffset(i, Number(e.target.value))}
+                disabled={data.loading}
+                className="nodrag w-full accent-cyan-400"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={() => data.runStyleTransfer(data.id)}
+        disabled={data.loading}
+        className="mt-3 p-2 w-full rounded bg-cyan-700 hover:bg-cyan-600 transition text-sm
+                   disabled:bg-cyan-900 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {data.loading ? (
+          <>
+            <LuLoader className="animate-spin" />
+            {data.progress != null ? `${Math.round(data.progress * 100)}%` : "Transferring…"}
+          </>
+        ) : data.audioUrl ? (
+          "Re-run"
+        ) : (
+          "Run"
+        )}
+      </button>
+      {data.error && <p className="mt-2 text-xs text-red-300">{data.error}</p>}
+
+      <div ref={waveformRef} className="w-full h-12 my-2"></div>
+      {data.audioUrl && <NodeMeters id={data.id} color={data.color} />}
+
+      {data.audioUrl && (
+        <div className="flex gap-2">
+          <button
+            onClick={handlePlayPause}
+            className="flex-1 p-2 rounded bg-cyan-900 hover:bg-cyan-800 transition text-white"
+          >
+            {isPlaying ? <LuPause /> : <LuPlay />}
+          </button>
+          <ExportButton data={data} tone="bg-cyan-900 hover:bg-cyan-800" />
+        </div>
+      )}
+
+      <TransformPicker
+        onAdd={(transform) => data.addTransformNode(data.id, transform)}
+        tone="bg-cyan-900 border-cyan-700"
+      />
+    </div>
+  );
+};
+
+const MatchNode: React.FC<NodeProps<MatchNodeData>> = ({ data }) => {
+  const { waveformRef, isPlaying, handlePlayPause } = usePlayableWaveform(data);
+  const { target, input } = data;
+
+  const commitBpm = (value: string) => {
+    const bpm = Number(value);
+    if (bpm >= 40 && bpm <= 240 && bpm !== target.bpm) data.updateMatchTarget(data.id, { ...target, bpm });
+  };
+
+  return (
+    <div className="bg-amber-950 border border-amber-500 rounded-lg shadow-md p-3 w-72 text-white">
+      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
+      <Handle type="source" position={Position.Right} style={{ background: data.color }} />
+      <div className="text-sm font-semibold mb-1">🎯 Match</div>
+      <p className="text-xs opacity-80 mb-2">
+        {input
+          ? `${data.label}: ${input.bpm.toFixed(1)} BPM · ${formatKey(input.key)}`
+          : `Waiting for the tempo & key of ${data.label}`}
+      </p>
+
+      <div className="space-y-2 text-left text-xs">
+        {data.songs && data.songs.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const song = data.songs?.find((s) => s.id === e.target.value);
+              if (song) data.updateMatchTarget(data.id, song.tempoKey);
+            }}
+            className="nodrag w-full bg-amber-900 border border-amber-700 rounded p-1 text-sm"
+          >
+            <option value="">Match to song…</option>
+            {data.songs.map((song) => (
+              <option key={song.id} value={song.id}>
+                {song.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex gap-2">
+          <input
+            key={target.bpm}
+            type="number"
+            min={40}
+            max={240}
+            step={0.1}
+            defaultValue={target.bpm}
+            onBlur={(e) => commitBpm(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && commitBpm(e.currentTarget.value)}
+            className="nodrag w-20 bg-amber-900 border border-amber-700 rounded p-1 text-sm"
+          />
+          <KeySelect
+            value={target.key}
+            onChange={(key) => data.updateMatchTarget(data.id, { ...target, key })}
+            className="nodrag flex-1 bg-amber-900 border border-amber-700 rounded p-1 text-sm"
+          />
+        </div>
+        {input && (
+          <p className="opacity-70">
+            Tempo ×{tempoRatio(input.bpm, target.bpm).toFixed(3)} · Pitch{" "}
+            {semitoneShift(input.key, target.key) >= 0 ? "+" : ""}
+            {semitoneShift(input.key, target.key)} st
+          </p>
+        )}
+      </div>
+
+      {data.loading && (
+        <div className="mt-2 flex items-center justify-center gap-2 text-xs opacity-80">
+          <LuLoader className="animate-spin" /> {input ? "Rendering…" : "Waiting…"}
+        </div>
+      )}
+      {data.error && <p className="mt-2 text-xs text-red-300">{data.error}</p>}
+
+      <div ref={waveformRef} className="w-full h-12 my-2"></div>
+      {data.audioUrl && <NodeMeters id={data.id} color={data.color} />}
+
+      {data.audioUrl && (
+        <div className="flex gap-2">
+          <button
+            onClick={handlePlayPause}
+            className="flex-1 p-2 rounded bg-amber-900 hover:bg-amber-800 transition text-white"
+          >
+            {isPlaying ? <LuPause /> : <LuPlay />}
+          </button>
+          <ExportButton data={data} tone="bg-amber-900 hover:bg-amber-800" />
+        </div>
+      )}
+
+      <TransformPicker
+        onAdd={(transform) => data.addTransformNode(data.id, transform)}
+        tone="bg-amber-900 border-amber-700"
+      />
+    </div>
+  );
+};
+
+const MixdownNode: React.FC<NodeProps<MixdownNodeData>> = ({ data }) => {
+  const { waveformRef, isPlaying, handlePlayPause } = usePlayableWaveform(data);
+
+  return (
+    <div className="bg-neutral-900 border rounded-xl shadow-lg p-4 w-80 text-center relative" style={{ borderColor: data.color }}>
+      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
+
+      <div className="flex items-center justify-center gap-2 mb-1 text-sm font-medium text-white">
+        <LuLayers style={{ color: data.color }} />
+        <span>{data.label}</span>
+      </div>
+      <p className="text-xs text-gray-400">
+        {data.loading ? "Mixing…" : `${data.trackCount} tracks merged`}
+      </p>
+
+      <div ref={waveformRef} className="w-full h-12 my-2"></div>
+      {data.audioUrl && <NodeMeters id={data.id} color={data.color} />}
+
+      {data.audioUrl && (
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={handlePlayPause}
+            className="flex-1 p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition text-white"
+          >
+            {isPlaying ? <LuPause style={{ color: data.color }} /> : <LuPlay style={{ color: data.color }} />}
+          </button>
+          <a
+            href={data.audioUrl}
+            download={data.fileName}
+            className="p-2 rounded bg-emerald-600 hover:bg-emerald-500 transition text-white flex items-center"
+          >
+            <LuDownload />
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The frame ignores the pointer so the canvas still pans through it; only its header is clickable.
+const SongGroupNode: React.FC<NodeProps<SongGroupNodeData>> = ({ data }) => (
+  <div className="w-full h-full rounded-2xl border border-dashed border-neutral-700 bg-neutral-900/40">
+    <button
+      onClick={() => data.toggleGroup(data.sourceId)}
+      title={data.collapsed ? "Expand song" : "Collapse song"}
+      className="pointer-events-auto max-w-full flex items-center gap-1 px-3 py-1.5 text-xs text-gray-400
+                 hover:text-white transition"
+    >
+      {data.collapsed ? <LuChevronRight /> : <LuChevronDown />}
+      <span className="truncate">{data.label}</span>
+      {data.collapsed && <span className="shrink-0 text-gray-500">· {data.hiddenCount} hidden</span>}
+    </button>
+  </div>
+);
+
+const nodeTypes = {
+  songGroup: SongGroupNode,
+  stemNode: StemNode,
+  sourceNode: SourceNode,
+  recordNode: RecordNode,
+  transformEffect: TransformEffectNode,
+  styleTransfer: StyleTransferNode,
+  match: MatchNode,
+  mixdown: MixdownNode,
+};
+
+// =================== TRANSPORT BAR ===================
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+const TransportBar: React.FC<{ onPlayAll: () => void }> = ({ onPlayAll }) => {
+  const { state, activeIds, duration, loop } = useTransportSnapshot();
+  const position = usePlayhead();
+  const transport = getTransport();
+
+  const handlePlayPause = () => {
+    if (state === "playing") return transport.pause();
+    // Resume the paused selection, or start every selected stem.
+    if (activeIds.length > 0) return transport.play(activeIds);
+    onPlayAll();
+  };
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[720px]
+              bg-neutral-900/80 border border-neutral-700 shadow-lg
+              rounded-xl px-4 py-3 flex items-center gap-3 backdrop-blur-sm text-white">
+      <button
+        onClick={handlePlayPause}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition"
+      >
+        {state === "playing" ? <LuPause /> : <LuPlay />}
+      </button>
+      <button
+        onClick={() => transport.stop()}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition"
+      >
+        <LuSquare />
+      </button>
+      <span className="text-xs tabular-nums text-gray-300 w-10 text-right">{formatTime(position)}</span>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.01}
+        value={Math.min(position, duration)}
+        onChange={(e) => transport.seek(Number(e.target.value))}
+        disabled={duration === 0}
+        className="flex-1 accent-emerald-500"
+      />
+      <span className="text-xs tabular-nums text-gray-400 w-10">{formatTime(duration)}</span>
+      {loop && (
+        <button
+          onClick={() => transport.setLoop(null)}
+          title="Clear loop"
+          className="px-2 py-1 rounded bg-emerald-700 hover:bg-emerald-600 transition text-xs flex items-center gap-1"
+        >
+          <LuRepeat /> {formatTime(loop.start)}–{formatTime(loop.end)}
+        </button>
+      )}
+      <LoudnessMeter />
+    </div>
+  );
+};
+
+// =================== INITIAL STATE ===================
+
+const NO_STEMS: string[] = [];
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+// Space between a song group's frame and its nodes.
+const GROUP_PADDING = 24;
+const GROUP_HEADER = 28;
+
+// Node colours on the minimap; group frames stay see-through.
+const minimapColor = (node: Node) =>
+  node.type === "songGroup" ? "transparent" : ((node.data as { color?: string }).color ?? "#525252");
+
+// Callbacks are attached by the app on mount, like any restored node.
+const initialNodes: Node[] = [
+  {
+    id: "1",
+    type: "sourceNode",
+    position: { x: 0, y: 0 },
+    data: { id: "1", label: "Source" },
+    sourcePosition: Position.Right,
+  },
+];
+
+// =================== MAIN APP ===================
+
+export default function App() {
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [lastAutosave, setLastAutosave] = useState<Date | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const projectInputRef = React.useRef<HTMLInputElement | null>(null);
+  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [backendId, setBackendId] = useState(DEFAULT_BACKEND_ID);
+  const [stemSetId, setStemSetId] = useState(getSeparationBackend(DEFAULT_BACKEND_ID).stemSets[0].id);
+  const [selectedStems, setSelectedStems] = useState<string[]>([]);
+  const [mixer, setMixer] = useState<Record<string, ChannelSettings>>({});
+  const [preflightSettings, setPreflightSettings] = useState(DEFAULT_PREFLIGHT_SETTINGS);
+  const [coverRun, setCoverRun] = useState<CoverRun | null>(null);
+  const cancelCover = useEventCallback(() => coverRun?.controller.abort());
+  const [coverEditorFor, setCoverEditorFor] = useState<string | null>(null); // source id
+  const [exportSettings, setExportSettings] = useState(DEFAULT_EXPORT_SETTINGS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [autoLayout, setAutoLayout] = useState(true);
+  const [showMinimap, setShowMinimap] = useState(true);
+  const transportSnapshot = useTransportSnapshot();
+  const playingStems = transportSnapshot.state === "playing" ? transportSnapshot.activeIds : NO_STEMS;
+
+  const updateChannel = (id: string, patch: Partial<ChannelSettings>) => {
+    // Fader and pan moves are drags; mute/solo clicks are steps of their own.
+    const continuous = ["gain", "pan"].find((key) => key in patch);
+    checkpoint(continuous && `channel:${id}:${continuous}`);
+    setMixer((prev) => ({ ...prev, [id]: { ...(prev[id] ?? DEFAULT_CHANNEL), ...patch } }));
+  };
+
+  const channelIdsFor = (nodeId: string) => channelIdsOf(nodeId, nodes, edges);
+
+  // Transform outputs follow the channel strip of the stem they hang off.
+  const channelIdFor = (nodeId: string): string | undefined => {
+    const channelIds = channelIdsFor(nodeId);
+    return channelIds.length === 1 ? channelIds[0] : undefined;
+  };
+
+  const isNodeAudible = (nodeId: string) => isAudibleThrough(channelIdsFor(nodeId), mixer);
+
+  // =================== LAYOUT & GROUPS ===================
+
+  // Each song, and everything fed by that song alone, forms a group on the canvas.
+  const nodeOwners = React.useMemo(() => assignRoots(nodes, edges), [nodes, edges]);
+
+  // Members of collapsed groups; the song node itself stays visible.
+  const collapsedIds = React.useMemo(() => {
+    const collapsed = new Set(
+      nodes.filter((n) => n.type === "sourceNode" && (n.data as SourceNodeData).collapsed).map((n) => n.id)
+    );
+    return new Set(
+      nodes
+        .filter((n) => {
+          const owner = nodeOwners.get(n.id);
+          return owner !== undefined && owner !== n.id && collapsed.has(owner);
+        })
+        .map((n) => n.id)
+    );
+  }, [nodes, nodeOwners]);
+
+  // Nodes added while automatic layout is on, placed once React Flow has
+  // measured every visible node.
+  const unplacedIds = React.useRef(new Set<string>());
+  const knownNodeIds = React.useRef(new Set(initialNodes.map((n) => n.id)));
+
+  // Lays out the visible nodes, keeping the graph's top-left corner where it was.
+  const arrangeNodes = () => {
+    const visible = nodes.filter((n) => !collapsedIds.has(n.id));
+    if (visible.length === 0) return;
+    const positions = layoutGraph(visible, edges);
+    const origin = boundsOf(visible);
+    setNodes((prev) =>
+      prev.map((n) => {
+        const position = positions.get(n.id);
+        return position ? { ...n, position: { x: origin.x + position.x, y: origin.y + position.y } } : n;
+      })
+    );
+  };
+
+  // ✅ Place newly added nodes next to their inputs; everything else stays where it is
+  const placeNewNodes = useEventCallback((nodeList: Node[]) => {
+    if (autoLayout) {
+      nodeList.forEach((n) => {
+        if (!knownNodeIds.current.has(n.id)) unplacedIds.current.add(n.id);
+      });
+    }
+    knownNodeIds.current = new Set(nodeList.map((n) => n.id));
+    const visible = nodeList.filter((n) => !collapsedIds.has(n.id));
+    const added = new Set(visible.filter((n) => unplacedIds.current.has(n.id)).map((n) => n.id));
+    if (added.size === 0 || visible.some((n) => !n.width || !n.height)) return;
+    unplacedIds.current.clear();
+    const positions = placeAddedNodes(visible, edges, added);
+    setNodes((prev) =>
+      prev.map((n) => {
+        const position = positions.get(n.id);
+        return position ? { ...n, position } : n;
+      })
+    );
+  });
+
+  useEffect(() => placeNewNodes(nodes), [nodes, placeNewNodes]);
+
+  const handleArrange = () => {
+    checkpoint();
+    arrangeNodes();
+  };
+
+  const toggleAutoLayout = () => {
+    setAutoLayout(!autoLayout);
+    saveAutoLayout(!autoLayout);
+  };
+
+  // ✅ Fold a song's group down to the song node, or open it again
+  const toggleGroup = useEventCallback((sourceId: string) => {
+    setNodes((prev) =>
+      prev.map((n) =>
+        n.id === sourceId ? { ...n, data: { ...n.data, collapsed: !(n.data as SourceNodeData).collapsed } } : n
+      )
+    );
+  });
+
+  // Frames behind each song group, sized to the members currently shown.
+  const groupFrames = React.useMemo(
+    (): Node<SongGroupNodeData>[] =>
+      nodes.flatMap((source) => {
+        if (source.type !== "sourceNode") return [];
+        const data = source.data as SourceNodeData;
+        const members = nodes.filter((n) => nodeOwners.get(n.id) === source.id);
+        const shown = members.filter((n) => !collapsedIds.has(n.id));
+        if (members.length < 2) return [];
+        const box = boundsOf(shown);
+        return [
+          {
+            id: `group-${source.id}`,
+            type: "songGroup",
+            position: { x: box.x - GROUP_PADDING, y: box.y - GROUP_PADDING - GROUP_HEADER },
+            style: {
+              width: box.width + 2 * GROUP_PADDING,
+              height: box.height + 2 * GROUP_PADDING + GROUP_HEADER,
+              pointerEvents: "none",
+            },
+            zIndex: -1,
+            draggable: false,
+            selectable: false,
+            focusable: false,
+            deletable: false,
+            data: {
+              sourceId: source.id,
+              label: data.file?.name ?? data.label,
+              collapsed: data.collapsed ?? false,
+              hiddenCount: members.length - shown.length,
+              toggleGroup,
+            },
+          },
+        ];
+      }),
+    [nodes, nodeOwners, collapsedIds, toggleGroup]
+  );
+
+  // ✅ Inject the live mixer state into stem + transform nodes at render time
+  const displayNodes = React.useMemo(() => {
+    const withLiveData = (node: Node): Node => {
+      if (node.type === "sourceNode") {
+        const coverStage = coverRun?.sourceId === node.id ? coverRun.stage : undefined;
+        return coverStage ? { ...node, data: { ...node.data, coverStage, cancelCover } } : node;
+      }
+      if (node.type === "recordNode") {
+        const backingCount = selectedStems.filter(
+          (id) => (nodes.find((n) => n.id === id)?.data as PlayableNodeData | undefined)?.audioUrl
+        ).length;
+        return { ...node, data: { ...node.data, backingCount } };
+      }
+      if (node.type !== "stemNode" && !TRANSFORM_NODE_TYPES.includes(node.type ?? "")) return node;
+      const channelIds = channelIdsOf(node.id, nodes, edges);
+      const matchInfo =
+        node.type === "match" ? { input: matchInputOf(node.id, nodes, edges), songs: analyzedSongs(nodes) } : {};
+      if (channelIds.length === 0 && node.type !== "match") return node;
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          ...matchInfo,
+          ...(channelIds.length > 0 && {
+            channel: channelIds.length === 1 ? (mixer[channelIds[0]] ?? DEFAULT_CHANNEL) : DEFAULT_CHANNEL,
+            audible: isAudibleThrough(channelIds, mixer),
+          }),
+        },
+      };
+    };
+
+    return [
+      ...groupFrames,
+      ...nodes.map((node) => {
+        const shown = withLiveData(node);
+        // Members of a folded group stay mounted, so their tracks keep playing
+        // and syncing; they are only made invisible and inert.
+        if (!collapsedIds.has(node.id)) return shown;
+        return {
+          ...shown,
+          style: { ...shown.style, visibility: "hidden" as const },
+          selectable: false,
+          draggable: false,
+          connectable: false,
+          focusable: false,
+        };
+      }),
+    ];
+  }, [nodes, edges, mixer, selectedStems, coverRun, cancelCover, groupFrames, collapsedIds]);
+
+  const displayEdges = React.useMemo(
+    () => edges.map((e) => (collapsedIds.has(e.source) || collapsedIds.has(e.target) ? { ...e, hidden: true } : e)),
+    [edges, collapsedIds]
+  );
+
+  // Node callbacks are captured when the node is created, so read the
+  // latest graph through a ref instead of the render-time closure.
+  const nodesRef = React.useRef(nodes);
+  nodesRef.current = nodes;
+
+  const updateNodeData = <T extends object>(id: string, patch: Partial<T>) => {
+    setNodes((prev) =>
+      prev.map((node) => (node.id === id ? { ...node, data: { ...node.data, ...patch } } : node))
+    );
+  };
+
+  const edgesRef = React.useRef(edges);
+  edgesRef.current = edges;
+  const mixerRef = React.useRef(mixer);
+  mixerRef.current = mixer;
+  const selectedStemsRef = React.useRef(selectedStems);
+  selectedStemsRef.current = selectedStems;
+  // The take being recorded, with what it needs to be placed on the timeline.
+  const recordingSession = React.useRef<{
+    nodeId: string;
+    session: RecordingSession;
+    accompanied: boolean; // whether a backing track played
+    clock: { contextTime: number; position: number };
+    loop: LoopRegion | null;
+  } | null>(null);
+
+  const { history, canUndo, canRedo } = useHistory<EditorSnapshot>(isSameSnapshot);
+
+  const currentSnapshot = (): EditorSnapshot => ({
+    nodes: nodesRef.current,
+    edges: edgesRef.current,
+    mixer: mixerRef.current,
+    selectedStems: selectedStemsRef.current,
+  });
+
+  // Call before every user edit so it can be undone; continuous gestures
+  // pass a `coalesceKey` so a whole drag is one step.
+  const checkpoint = (coalesceKey?: string) => history.record(currentSnapshot(), coalesceKey);
+
+  // Output URLs of every node feeding `nodeId`, or null until all of them have audio.
+  const readyInputUrls = (nodeId: string, nodeList: Node[], edgeList: Edge[]): string[] | null => {
+    const urls = incomingSources(nodeId, edgeList).map(
+      (id) => (nodeList.find((n) => n.id === id)?.data as PlayableNodeData | undefined)?.audioUrl
+    );
+    return urls.length > 0 && urls.every(Boolean) ? (urls as string[]) : null;
+  };
+
+  // Swap in a node's new render and revoke the one it replaces, unless
+  // another node or an undo step still holds it.
+  const replaceRenderedAudio = <T extends PlayableNodeData>(nodeId: string, patch: Partial<T>) => {
+    const previous = (nodesRef.current.find((n) => n.id === nodeId)?.data as PlayableNodeData | undefined)?.audioUrl;
+    updateNodeData<T>(nodeId, patch);
+    if (previous && previous !== patch.audioUrl) releaseUnusedAudio(previous, nodesRef.current, nodeId);
+  };
+
+  // Frees audio once neither `nodeList` nor an undo or redo step plays it.
+  const releaseUnusedAudio = (url: string, nodeList: Node[], exceptId?: string) => {
+    if (usesAudioUrl(nodeList, url, exceptId)) return;
+    if (history.some((snapshot) => usesAudioUrl(snapshot.nodes, url))) return;
+    releaseAudioUrl(url);
+  };
+
+  const decodeInputs = async (urls: string[]) => combineInputs(await Promise.all(urls.map(decodeAudioUrl)));
+
+  // What each transform node was last rendered from; a change re-renders it,
+  // which in turn changes the inputs of everything downstream.
+  const renderedSignatures = React.useRef<Record<string, string>>({});
+
+  // How an auto-rendered transform turns its inputs into audio, keyed by a
+  // signature of everything that render depends on.
+  const renderPlan = (nodeId: string, nodeList: Node[], edgeList: Edge[]): RenderPlan => {
+    const node = nodeList.find((n) => n.id === nodeId)!;
+    const inputs = readyInputUrls(nodeId, nodeList, edgeList);
+    // An input with no audio on the way (failed, cancelled, never run) stalls
+    // the node instead of leaving it loading forever.
+    const sources = incomingSources(nodeId, edgeList);
+    const stalled = sources.some((id) => {
+      const data = nodeList.find((n) => n.id === id)?.data as PlayableNodeData | undefined;
+      return !data?.audioUrl && !data?.loading;
+    });
+    const idle = { signature: sources.length === 0 ? "disconnected" : stalled ? "stalled" : "waiting" };
+    if (!inputs) return idle;
+
+    if (node.type === "match") {
+      const input = matchInputOf(nodeId, nodeList, edgeList);
+      if (!input) return idle; // the song is still being analyzed
+      const { target } = node.data as MatchNodeData;
+      const adjustment = { tempoRatio: tempoRatio(input.bpm, target.bpm), semitones: semitoneShift(input.key, target.key) };
+      return {
+        signature: `match|${adjustment.tempoRatio}|${adjustment.semitones}|${inputs.join("|")}`,
+        inputs,
+        render: async (source) => applyMatch(source, adjustment),
+      };
+    }
+
+    const { effect } = node.data as TransformEffectNodeData;
+    const params = resolveEffectParams(effect, (node.data as TransformEffectNodeData).params);
+    return {
+      signature: `${effect}|${JSON.stringify(params)}|${inputs.join("|")}`,
+      inputs,
+      render: (source) => renderEffect(source, effect, params),
+    };
+  };
+
+  // ✅ Render the transform offline and hand the result back to the node as a blob URL
+  const renderTransformNode = async (
+    nodeId: string,
+    signature: string,
+    inputUrls: string[],
+    render: (source: AudioBuffer) => Promise<AudioBuffer>
+  ) => {
+    try {
+      const source = await decodeInputs(inputUrls);
+      const rendered = await render(source);
+      if (renderedSignatures.current[nodeId] !== signature) return; // inputs changed meanwhile
+      const audioUrl = URL.createObjectURL(encodeWav(rendered));
+      replaceRenderedAudio<TransformEffectNodeData>(nodeId, { audioUrl, loading: false });
+    } catch (err) {
+      console.error("Transform render failed:", err);
+      if (renderedSignatures.current[nodeId] !== signature) return;
+      replaceRenderedAudio<TransformEffectNodeData>(nodeId, { audioUrl: undefined, loading: false, error: "Render failed." });
+    }
+  };
+
+  // ✅ Evaluate the transform DAG whenever a node's inputs change
+  const evaluateGraph = useEventCallback((nodeList: Node[], edgeList: Edge[]) => {
+    nodeList.forEach((node) => {
+      if (!AUTO_RENDER_TYPES.includes(node.type ?? "")) return;
+      const plan = renderPlan(node.id, nodeList, edgeList);
+      if (renderedSignatures.current[node.id] === plan.signature) return;
+      renderedSignatures.current[node.id] = plan.signature;
+
+      // The previous render keeps playing until its replacement is ready, so
+      // parameter tweaks are heard without stopping the transport.
+      replaceRenderedAudio<TransformEffectNodeData>(node.id, {
+        ...(plan.render ? {} : { audioUrl: undefined }),
+        loading: plan.signature !== "disconnected" && plan.signature !== "stalled",
+        error: undefined,
+      });
+      if (plan.inputs && plan.render) renderTransformNode(node.id, plan.signature, plan.inputs, plan.render);
+    });
+  });
+
+  useEffect(() => evaluateGraph(nodes, edges), [nodes, edges, evaluateGraph]);
+
+  const editSignature = (data: StemNodeData) => `${JSON.stringify(data.edits ?? [])}|${data.sourceUrl}`;
+
+  // ✅ Re-render a stem's edit list onto its separated audio; downstream
+  // transforms and the mixdown pick the new output up through `audioUrl`.
+  const renderStemEdits = useEventCallback((nodeList: Node[]) => {
+    nodeList.forEach((node) => {
+      const data = node.data as StemNodeData;
+      if (node.type !== "stemNode" || !data.sourceUrl) return;
+      const signature = editSignature(data);
+      if (renderedSignatures.current[node.id] === signature) return;
+      renderedSignatures.current[node.id] = signature;
+
+      const { edits = [], sourceUrl } = data;
+      if (edits.length === 0) {
+        if (data.audioUrl !== sourceUrl) replaceRenderedAudio<StemNodeData>(node.id, { audioUrl: sourceUrl });
+        return;
+      }
+      decodeAudioUrl(sourceUrl)
+        .then((buffer) => {
+          if (renderedSignatures.current[node.id] !== signature) return; // edited again meanwhile
+          const audioUrl = URL.createObjectURL(encodeWav(applyEdits(buffer, edits)));
+          replaceRenderedAudio<StemNodeData>(node.id, { audioUrl, error: undefined });
+        })
+        .catch((err) => {
+          console.error("Applying stem edits failed:", err);
+          updateNodeData<StemNodeData>(node.id, { error: "Could not apply edits." });
+        });
+    });
+  });
+
+  useEffect(() => renderStemEdits(nodes), [nodes, renderStemEdits]);
+
+  // Stems separated before editing existed keep their original audio in `audioUrl`.
+  const updateStemEdits = (id: string, edits: EditOperation[]) => {
+    checkpoint();
+    setNodes((prev) =>
+      prev.map((node) => {
+        if (node.id !== id) return node;
+        const data = node.data as StemNodeData;
+        return { ...node, data: { ...data, edits, sourceUrl: data.sourceUrl ?? data.audioUrl } };
+      })
+    );
+  };
+
+  const updateStyleParams = (id: string, patch: Partial<StyleTransferParams>) => {
+    checkpoint(`style:${id}:${Object.keys(patch).join(",")}`);
+    setNodes((prev) =>
+      prev.map((node) => {
+        if (node.id !== id) return node;
+        const data = node.data as StyleTransferNodeData;
+        return { ...node, data: { ...data, params: { ...data.params, ...patch } } };
+      })
+    );
+  };
+
+  // ✅ Send the parent stem to RAVE and load the result into the node
+  const runStyleTransfer = async (nodeId: string) => {
+    const node = nodesRef.current.find((n) => n.id === nodeId);
+    if (!node) return;
+    const { params } = node.data as StyleTransferNodeData;
+    const inputs = readyInputUrls(nodeId, nodesRef.current, edgesRef.current);
+    if (!inputs) return alert("Connect an input with audio first.");
+
+    updateNodeData<StyleTransferNodeData>(nodeId, { loading: true, progress: undefined, error: undefined });
+    try {
+      const audio = inputs.length === 1 ? await fetch(inputs[0]).then((res) => res.blob()) : encodeWav(await decodeInputs(inputs));
+      const audioUrl = await runRaveStyleTransfer(audio, params, {
+        onProgress: (progress) => updateNodeData<StyleTransferNodeData>(nodeId, { progress }),
+      });
+      updateNodeData<StyleTransferNodeData>(nodeId, { audioUrl, loading: false });
+    } catch (err) {
+      console.error("Style transfer failed:", err);
+      updateNodeData<StyleTransferNodeData>(nodeId, { loading: false, error: "Style transfer failed." });
+    }
+  };
+
+  const updateMatchTarget = (id: string, target: TempoKey) => {
+    checkpoint(`match:${id}`);
+    updateNodeData<MatchNodeData>(id, { target });
+  };
+
+  const updateEffectParams = (id: string, params: EffectParams) => {
+    checkpoint(`params:${id}`);
+    updateNodeData<TransformEffectNodeData>(id, { params });
+  };
+
+  // Plays the effect's dry input (or its render again) on the node's own track.
+  const auditionDry = async (id: string, dry: boolean) => {
+    const data = nodesRef.current.find((n) => n.id === id)?.data as TransformEffectNodeData | undefined;
+    const inputs = readyInputUrls(id, nodesRef.current, edgesRef.current);
+    if (!data?.audioUrl || !inputs) return;
+    try {
+      const buffer = dry ? await decodeInputs(inputs) : await decodeAudioUrl(data.audioUrl);
+      getTransport().register(id, buffer, data.offset ?? 0);
+    } catch (err) {
+      console.error("A/B compare failed:", err);
+    }
+  };
+
+  // A new Match node aims at another analyzed song if there is one, otherwise
+  // it starts as a no-op at the input's own tempo and key.
+  const defaultMatchTarget = (parentId: string): TempoKey => {
+    const nodeList = nodesRef.current;
+    const edgeList = edgesRef.current;
+    const ownSong = resolveRootNode(parentId, nodeList, edgeList, ["sourceNode"]);
+    const otherSong = analyzedSongs(nodeList).find((song) => song.id !== ownSong);
+    return otherSong?.tempoKey ?? tempoKeyOf(parentId, nodeList, edgeList) ?? { bpm: 120, key: ALL_KEYS[0] };
+  };
+
+  // A transform node fed by `parentNode`, placed after whatever already hangs off it.
+  const createTransformNode = (parentNode: Node, transform: TransformType): { node: Node; edge: Edge } => {
+    const parentId = parentNode.id;
+    const parentData = parentNode.data as PlayableNodeData;
+    const newNodeId = `transform-${parentId}-${Date.now()}`;
+    const siblingCount = edgesRef.current.filter((e) => e.source === parentId).length;
+    const color = TRANSFORM_COLORS[transform] ?? TRANSFORM_COLORS.effect;
+    const base = { id: newNodeId, label: parentData.label, color };
+
+    const node = hydrateNode({
+      id: newNodeId,
+      type: transform === "styleTransfer" || transform === "match" ? transform : "transformEffect",
+      position: { x: parentNode.position.x + 300, y: parentNode.position.y + siblingCount * 160 },
+      data:
+        transform === "styleTransfer"
+          ? { ...base, params: DEFAULT_STYLE_PARAMS }
+          : transform === "match"
+            ? { ...base, target: defaultMatchTarget(parentId), loading: true }
+            : { ...base, effect: transform, params: defaultEffectParams(transform), loading: true },
+      targetPosition: Position.Left,
+    });
+    const edge = {
+      id: `edge-${parentId}-${newNodeId}`,
+      source: parentId,
+      target: newNodeId,
+      type: "musicEdge",
+      style: { stroke: color },
+    };
+    return { node, edge };
+  };
+
+  // ✅ Function to spawn transform effect node
+  const addTransformNode = (parentId: string, transform: TransformType) => {
+    const parentNode = nodesRef.current.find((n) => n.id === parentId);
+    if (!parentNode) return;
+
+    checkpoint();
+    const { node, edge } = createTransformNode(parentNode, transform);
+    setNodes((prev) => [...prev, node]);
+    setEdges((prev) => [...prev, edge]);
+  };
+
+  // ✅ Only allow edges into transform nodes that keep the graph acyclic
+  const isValidConnection = (connection: Connection) => {
+    const { source, target } = connection;
+    if (!source || !target) return false;
+    const targetNode = nodesRef.current.find((n) => n.id === target);
+    if (!targetNode || !TRANSFORM_NODE_TYPES.includes(targetNode.type ?? "")) return false;
+    if (edgesRef.current.some((e) => e.source === source && e.target === target)) return false;
+    return !wouldCreateCycle(source, target, edgesRef.current);
+  };
+
+  const onConnect = (connection: Connection) => {
+    if (!isValidConnection(connection)) return;
+    checkpoint();
+    const sourceColor = (nodesRef.current.find((n) => n.id === connection.source)?.data as PlayableNodeData)
+      ?.color;
+    setEdges((prev) =>
+      addEdge({ ...connection, type: "musicEdge", style: { stroke: sourceColor ?? "#a855f7" } }, prev)
+    );
+  };
+
+
+  // Source node callbacks outlive the render that created them, so the
+  // separation settings are read through a ref as well.
+  const separationDefaults = React.useRef({ backendId, stemSetId, preflightSettings });
+  separationDefaults.current = { backendId, stemSetId, preflightSettings };
+
+  // Drops the stems of a source and every transform that only they fed.
+  const removeSourceStems = (sourceId: string) => {
+    const stemIds = nodesRef.current
+      .filter((n) => n.type === "stemNode" && (n.data as StemNodeData).sourceId === sourceId)
+      .map((n) => n.id);
+    const removed = collectOrphanedDownstream(stemIds, edgesRef.current);
+    setNodes((prev) => prev.filter((n) => !removed.has(n.id)));
+    setEdges((prev) => prev.filter((e) => !removed.has(e.source) && !removed.has(e.target)));
+    return removed;
+  };
+
+  // ✅ Delete nodes with every transform that only they fed; a song or recorder takes its stems along
+  const removeNodes = (ids: string[]) => {
+    checkpoint();
+    const nodeList = nodesRef.current;
+    const roots = ids.flatMap((id) => {
+      const node = nodeList.find((n) => n.id === id);
+      if (node?.type !== "sourceNode" && node?.type !== "recordNode") return [id];
+      const { jobId } = node.data as SourceNodeData;
+      if (jobId) getJobManager().cancel(jobId);
+      const stemIds = nodeList
+        .filter((n) => n.type === "stemNode" && (n.data as StemNodeData).sourceId === id)
+        .map((n) => n.id);
+      return [id, ...stemIds];
+    });
+    const removed = collectOrphanedDownstream(roots, edgesRef.current);
+    if (recordingSession.current && removed.has(recordingSession.current.nodeId)) cancelTake();
+    setNodes((prev) => prev.filter((n) => !removed.has(n.id)));
+    setEdges((prev) => prev.filter((e) => !removed.has(e.source) && !removed.has(e.target)));
+    setSelectedStems((prev) => prev.filter((id) => !removed.has(id)));
+  };
+
+  const removeSelection = () => {
+    checkpoint();
+    const edgeIds = new Set(edgesRef.current.filter((e) => e.selected).map((e) => e.id));
+    if (edgeIds.size > 0) setEdges((prev) => prev.filter((e) => !edgeIds.has(e.id)));
+    removeNodes(nodesRef.current.filter((n) => n.selected).map((n) => n.id));
+  };
+
+  // ✅ Pre-flight: decode the upload locally and check it against the backend's
+  // limits, so a file that can't be separated fails here and not after the upload
+  const checkSource = async (sourceId: string, file: File, url: string): Promise<boolean> => {
+    const { backendId: currentBackend, preflightSettings: settings } = separationDefaults.current;
+    const { capabilities } = getSeparationBackend(currentBackend);
+    const fileError = checkFile(file, capabilities, settings);
+    if (fileError) {
+      updateNodeData<SourceNodeData>(sourceId, { stats: undefined, inputError: fileError, checking: false });
+      return false;
+    }
+
+    updateNodeData<SourceNodeData>(sourceId, { stats: undefined, inputError: undefined, checking: true });
+    try {
+      const stats = await inspectAudioFile(file, url);
+      const current = nodesRef.current.find((n) => n.id === sourceId)?.data as SourceNodeData | undefined;
+      if (current?.audioUrl !== url) return false; // a different song was loaded meanwhile
+      const inputError = checkStats(stats, capabilities, settings) ?? undefined;
+      updateNodeData<SourceNodeData>(sourceId, { stats, inputError, checking: false });
+      return !inputError;
+    } catch (err) {
+      updateNodeData<SourceNodeData>(sourceId, { inputError: (err as Error).message, checking: false });
+      return false;
+    }
+  };
+
+  const loadSourceAudio = async (sourceId: string, file: File, url: string) => {
+    if (await checkSource(sourceId, file, url)) analyzeSource(sourceId, url);
+  };
+
+  // Limits depend on the backend and the settings, so re-check songs already measured.
+  useEffect(() => {
+    const { capabilities } = getSeparationBackend(backendId);
+    setNodes((prev) =>
+      prev.map((node) => {
+        const data = node.data as SourceNodeData;
+        if (node.type !== "sourceNode" || !data.file || !data.stats) return node;
+        const inputError =
+          checkFile(data.file, capabilities, preflightSettings) ??
+          checkStats(data.stats, capabilities, preflightSettings) ??
+          undefined;
+        return inputError === data.inputError ? node : { ...node, data: { ...data, inputError } };
+      })
+    );
+  }, [backendId, preflightSettings, setNodes]);
+
+  const updatePreflightSettings = (settings: PreflightSettings) => {
+    setPreflightSettings(settings);
+    savePreflightSettings(settings);
+  };
+
+  // ✅ Detect tempo, beat grid and key once a song is loaded
+  const analyzeSource = async (sourceId: string, url: string) => {
+    updateNodeData<SourceNodeData>(sourceId, { analysis: undefined, analyzing: true });
+    try {
+      const analysis = await analyzeAudio(await decodeAudioUrl(url));
+      const current = nodesRef.current.find((n) => n.id === sourceId)?.data as SourceNodeData | undefined;
+      if (current?.audioUrl !== url) return; // a different song was loaded meanwhile
+      updateNodeData<SourceNodeData>(sourceId, { analysis, analyzing: false });
+    } catch (err) {
+      console.error("Tempo/key analysis failed:", err);
+      updateNodeData<SourceNodeData>(sourceId, { analyzing: false });
+    }
+  };
+
+  // ✅ Load a song into a source node, discarding the stems of the previous one
+  const replaceSourceFile = (sourceId: string, selectedFile: File) => {
+    checkpoint();
+    const source = nodesRef.current.find((n) => n.id === sourceId);
+    const jobId = (source?.data as SourceNodeData | undefined)?.jobId;
+    if (jobId) getJobManager().cancel(jobId);
+    const removed = removeSourceStems(sourceId);
+    setSelectedStems((prev) => prev.filter((id) => !removed.has(id)));
+
+    const url = URL.createObjectURL(selectedFile);
+    setNodes((nds) =>
+      nds.map((node) =>
+        node.id === sourceId
+          ? { ...node, data: { ...node.data, file: selectedFile, audioUrl: url, jobId: undefined } }
+          : node
+      )
+    );
+    loadSourceAudio(sourceId, selectedFile, url);
+  };
+
+  // ✅ Handle file upload: fill an empty source, or add another song below the others
+  const handleAddSong = (e: ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!selectedFile) return;
+
+    const sources = nodesRef.current.filter((n) => n.type === "sourceNode");
+    const empty = sources.find((n) => !(n.data as SourceNodeData).file);
+    if (empty) return replaceSourceFile(empty.id, selectedFile);
+
+    checkpoint();
+    const id = `source-${Date.now()}`;
+    const url = URL.createObjectURL(selectedFile);
+    const bottom = Math.max(0, ...nodesRef.current.map((n) => n.position.y));
+    const sourceNode = hydrateNode({
+      id,
+      type: "sourceNode",
+      position: { x: 0, y: bottom + 400 },
+      data: {
+        id,
+        label: `Source ${sources.length + 1}`,
+        file: selectedFile,
+        audioUrl: url,
+      },
+      sourcePosition: Position.Right,
+    });
+    setNodes((prev) => [...prev, sourceNode]);
+    loadSourceAudio(id, selectedFile, url);
+  };
+
+  const handleBackendChange = (id: string) => {
+    const backend = getSeparationBackend(id);
+    setBackendId(id);
+    setStemSetId(backend.stemSets[0].id);
+  };
+
+  // ✅ Animate edges when audio is playing
+  useEffect(() => {
+    setEdges((eds) =>
+      eds.map((edge) => ({
+        ...edge,
+        animated: playingStems.includes(edge.target),
+      }))
+    );
+  }, [playingStems]);
+
+  // ✅ Separate stems logic unchanged EXCEPT we add transform dropdown in each stem node now
+  const patchStemNodes = (jobId: string, patch: (data: StemNodeData) => Partial<StemNodeData>) => {
+    setNodes((prev) =>
+      prev.map((node) => {
+        const data = node.data as StemNodeData;
+        return node.type === "stemNode" && data.jobId === jobId ? { ...node, data: { ...data, ...patch(data) } } : node;
+      })
+    );
+  };
+
+  const retrySeparation = (jobId: string) => {
+    patchStemNodes(jobId, () => ({ loading: true, error: undefined, cancelled: undefined }));
+    getJobManager().retry(jobId);
+  };
+
+  // ✅ Load stems from the cache, or convert the song to what the backend expects and queue its separation.
+  // Resolves to whether stem nodes were placed.
+  const separateSource = async (sourceId: string): Promise<boolean> => {
+    const sourceData = nodesRef.current.find((n) => n.id === sourceId)?.data as SourceNodeData | undefined;
+    if (!sourceData?.file) {
+      alert("Please upload a file first.");
+      return false;
+    }
+    if (sourceData.checking || sourceData.preparing) return false;
+    if (sourceData.inputError) {
+      alert(`❌ ${sourceData.inputError}`);
+      return false;
+    }
+
+    const { backendId: currentBackend, stemSetId: currentStemSet, preflightSettings: settings } =
+      separationDefaults.current;
+    const backend = getSeparationBackend(currentBackend);
+
+    // The same song separated the same way before loads instantly instead of re-uploading.
+    let cacheKey: string | undefined;
+    try {
+      const variant = `prepared:${settings.convert ? 1 : 0}${settings.normalize ? 1 : 0}`;
+      cacheKey = await separationCacheKey(sourceData.file, backend, getStemSet(backend, currentStemSet).id, variant);
+      const cached = await getStemCache().get(cacheKey);
+      if (cached) {
+        loadCachedStems(sourceId, cached);
+        return true;
+      }
+    } catch (err) {
+      console.warn("Stem cache unavailable:", err);
+    }
+
+    let upload = sourceData.file;
+    if (sourceData.stats && sourceData.audioUrl) {
+      updateNodeData<SourceNodeData>(sourceId, { preparing: true });
+      try {
+        upload = await prepareForSeparation(
+          sourceData.file,
+          sourceData.audioUrl,
+          sourceData.stats,
+          backend.capabilities,
+          settings
+        );
+      } catch (err) {
+        console.error("Preparing the upload failed:", err);
+        updateNodeData<SourceNodeData>(sourceId, { preparing: false, inputError: "Could not convert this song for upload." });
+        return false;
+      }
+      updateNodeData<SourceNodeData>(sourceId, { preparing: false });
+    }
+    queueSeparation(sourceId, upload, cacheKey);
+    return true;
+  };
+
+  // Lays a song's stems out next to it, stacked vertically and centred on the
+  // source node. They replace its previous stems and everything built only on them.
+  const placeStemNodes = (
+    sourceId: string,
+    labels: string[],
+    stemData: (label: string) => Partial<StemNodeData>,
+    jobId?: string
+  ) => {
+    const sourceNode = nodesRef.current.find((n) => n.id === sourceId);
+    const file = (sourceNode?.data as SourceNodeData | undefined)?.file;
+    if (!sourceNode || !file) return;
+
+    const stems = labels.map((label, i) => ({
+      id: stemNodeId(sourceId, label),
+      label,
+      color: getStemColor(label),
+      y: sourceNode.position.y + (i - (labels.length - 1) / 2) * 180,
+    }));
+
+    const stemNodes: Node<CustomNodeData>[] = stems.map((stem) => ({
+      id: stem.id,
+      type: "stemNode",
+      position: { x: sourceNode.position.x + 400, y: stem.y },
+      data: {
+        label: stem.label,
+        color: stem.color,
+        id: stem.id,
+        sourceId,
+        song: songName(file),
+        jobId,
+        ...stemData(stem.label),
+      },
+      targetPosition: Position.Left,
+    })).map(hydrateNode);
+
+    const stemEdges: Edge[] = stems.map((stem) => ({
+      id: `e${sourceId}-${stem.id}`,
+      source: sourceId,
+      target: stem.id,
+      type: "musicEdge",
+      animated: false,
+      style: { stroke: stem.color },
+    }));
+
+    const removed = removeSourceStems(sourceId);
+    setNodes((prev) => [
+      ...prev.map((n) => (n.id === sourceId ? { ...n, data: { ...n.data, jobId } } : n)),
+      ...stemNodes,
+    ]);
+    setEdges((prev) => [...prev, ...stemEdges]);
+    setSelectedStems((prev) => [...prev.filter((id) => !removed.has(id)), ...stems.map((stem) => stem.id)]);
+
+    // Stems from the stem cache play blob URLs of their own, as do renders built on them.
+    const kept = nodesRef.current.filter((n) => !removed.has(n.id));
+    const replacedUrls = nodesRef.current
+      .filter((n) => removed.has(n.id))
+      .flatMap((n) => {
+        const data = n.data as PlayableNodeData & { sourceUrl?: string };
+        return [data.audioUrl, data.sourceUrl];
+      });
+    new Set(replacedUrls).forEach((url) => url && releaseUnusedAudio(url, kept));
+  };
+
+  const loadCachedStems = (sourceId: string, cached: SeparatedStem[]) => {
+    const sourceData = nodesRef.current.find((n) => n.id === sourceId)?.data as SourceNodeData | undefined;
+    checkpoint();
+    if (sourceData?.jobId) getJobManager().cancel(sourceData.jobId);
+    const urls = Object.fromEntries(cached.map((stem) => [stem.label, stem.url]));
+    placeStemNodes(
+      sourceId,
+      cached.map((stem) => stem.label),
+      (label) => ({ audioUrl: urls[label], sourceUrl: urls[label] })
+    );
+  };
+
+  const queueSeparation = (sourceId: string, upload: File, cacheKey?: string) => {
+    const sourceData = nodesRef.current.find((n) => n.id === sourceId)?.data as SourceNodeData | undefined;
+    if (!sourceData?.file) return;
+    const { file } = sourceData;
+    const backend = getSeparationBackend(separationDefaults.current.backendId);
+    const stemSet = getStemSet(backend, separationDefaults.current.stemSetId);
+    const jobs = getJobManager();
+
+    checkpoint();
+    // A new separation replaces the one in flight for this song.
+    if (sourceData.jobId) jobs.cancel(sourceData.jobId);
+
+    const jobId = jobs.enqueue({
+      file: upload,
+      backend,
+      stemSet: stemSet.id,
+      label: file.name,
+      onSuccess: (separated) => {
+        const urls = Object.fromEntries(separated.map((stem) => [stem.label, stem.url]));
+        patchStemNodes(jobId, (data) => ({
+          loading: false,
+          error: undefined,
+          audioUrl: urls[data.label],
+          sourceUrl: urls[data.label],
+        }));
+        if (!cacheKey) return;
+        getStemCache()
+          .put(cacheKey, { label: file.name, backendName: backend.name, stemSet: stemSet.label }, separated)
+          .catch((err) => console.warn("Could not cache the separated stems:", err));
+      },
+      onFailure: (message) => patchStemNodes(jobId, () => ({ loading: false, error: message })),
+      onCancel: () => patchStemNodes(jobId, () => ({ loading: false, cancelled: true })),
+    });
+
+    placeStemNodes(sourceId, stemSet.stems, () => ({ loading: true }), jobId);
+  };
+
+  // ✅ Merge the selected stems (or the end of their transform chains) into one WAV
+  const handleMixdown = async () => {
+    const mixNodeId = "mixdown";
+    const currentNodes = nodesRef.current.filter((n) => n.id !== mixNodeId);
+    const currentEdges = edges.filter((e) => e.target !== mixNodeId);
+
+    // Exactly what Play All plays, including every branch of a split chain.
+    const leafIds = selectedChainEnds(currentNodes, currentEdges);
+    const leaves = currentNodes.filter((n) => leafIds.includes(n.id));
+
+    if (leaves.length === 0) return alert("No audible separated stems are ready to mix.");
+    // A mix missing a stem that is still rendering sounds finished but isn't.
+    const missing = leaves.filter((n) => !(n.data as PlayableNodeData).audioUrl);
+    const pending = missing.filter((n) => (n.data as PlayableNodeData).loading);
+    if (pending.length > 0) {
+      return alert(`⏳ Wait for ${pending.map(outputLabel).join(", ")} to finish before mixing.`);
+    }
+    if (missing.length > 0) {
+      return alert(`❌ ${missing.map(outputLabel).join(", ")} has no audio. Retry it or untick it in the Sync panel.`);
+    }
+
+    checkpoint();
+    setIsMixing(true);
+    const maxX = Math.max(...currentNodes.map((n) => n.position.x));
+    const avgY = leaves.reduce((sum, n) => sum + n.position.y, 0) / leaves.length;
+    const mixColor = "#22c55e";
+    // Stems from several songs make a mashup; otherwise name the mix after its song.
+    // Recorded takes join the mix without naming it.
+    const songs = [
+      ...new Set(
+        leaves.flatMap((leaf) =>
+          channelIdsFor(leaf.id).flatMap((channelId) => {
+            const stemData = currentNodes.find((n) => n.id === channelId)?.data as StemNodeData | undefined;
+            return stemData?.take ? [] : [stemData?.song ?? "stems"];
+          })
+        )
+      ),
+    ];
+
+    const mixNode: Node<MixdownNodeData> = {
+      id: mixNodeId,
+      type: "mixdown",
+      position: { x: maxX + 400, y: avgY },
+      data: {
+        id: mixNodeId,
+        label: "Mixdown",
+        color: mixColor,
+        fileName: songs.length > 1 ? "mashup.wav" : `${songs[0] ?? "recording"}-remix.wav`,
+        trackCount: leaves.length,
+        loading: true,
+      },
+      targetPosition: Position.Left,
+    };
+
+    setNodes([...currentNodes, mixNode]);
+    setEdges([
+      ...currentEdges,
+      ...leaves.map((leaf) => ({
+        id: `edge-${leaf.id}-${mixNodeId}`,
+        source: leaf.id,
+        target: mixNodeId,
+        type: "musicEdge",
+        style: { stroke: mixColor },
+      })),
+    ]);
+
+    try {
+      const buffers = await Promise.all(
+        leaves.map((leaf) => decodeAudioUrl((leaf.data as PlayableNodeData).audioUrl!))
+      );
+      const mixed = await mixdownTracks(
+        buffers.map((buffer, i) => {
+          const channelId = channelIdFor(leaves[i].id);
+          return {
+            buffer,
+            offset: (leaves[i].data as PlayableNodeData).offset ?? 0,
+            gain: channelId ? effectiveGain(channelId, mixer) : 1,
+            pan: channelId ? (mixer[channelId] ?? DEFAULT_CHANNEL).pan : 0,
+          };
+        })
+      );
+      updateNodeData<MixdownNodeData>(mixNodeId, { audioUrl: URL.createObjectURL(encodeWav(mixed)), loading: false });
+    } catch (err) {
+      console.error("Mixdown failed:", err);
+      alert("❌ Mixdown failed.");
+      setNodes((prev) => prev.filter((n) => n.id !== mixNodeId));
+      setEdges((prev) => prev.filter((e) => e.target !== mixNodeId));
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  // =================== EXPORT ===================
+
+  // Node export buttons outlive the render that created them.
+  const exportSettingsRef = React.useRef(exportSettings);
+  exportSettingsRef.current = exportSettings;
+
+  const updateExportSettings = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  const renderNodeExport = async (node: Node, currentNodes: Node[], currentEdges: Edge[], settings: ExportSettings) => {
+    const parts = exportNameParts(node.id, currentNodes, currentEdges);
+    const buffer = await decodeAudioUrl((node.data as PlayableNodeData).audioUrl!);
+    const { blob, adjustment } = await renderExport(buffer, settings, parts.filter(Boolean).join(" - "));
+    return { blob, adjustment, fileName: exportFileName(parts, formatExtension(settings.format)) };
+  };
+
+  // ✅ Download one stem or transform output in the chosen export format
+  const exportAudio = async (id: string) => {
+    const node = nodesRef.current.find((n) => n.id === id);
+    if (!node || !(node.data as PlayableNodeData).audioUrl) return;
+    try {
+      const { blob, fileName } = await renderNodeExport(
+        node,
+        nodesRef.current,
+        edgesRef.current,
+        exportSettingsRef.current
+      );
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      console.error("Export failed:", err);
+      alert(`❌ Could not export ${outputLabel(node)}: ${(err as Error).message}`);
+    }
+  };
+
+  // ✅ Zip every stem and transform output with a manifest of the graph behind each file
+  const handleExportAll = async () => {
+    const outputs = exportableNodes(nodes);
+    if (outputs.length === 0) return alert("No stems or transform outputs are ready to export.");
+
+    setIsExporting(true);
+    try {
+      const entries: ZipEntry[] = [];
+      const files: { file: string; node: string; chain: string[]; loudness?: LoudnessAdjustment }[] = [];
+      const taken = new Set<string>();
+      // One at a time, so only one render and encode is in flight. The decoded
+      // outputs stay in the decode cache, which playback shares.
+      for (const node of outputs) {
+        const { blob, adjustment, fileName } = await renderNodeExport(node, nodes, edges, exportSettings);
+        const file = uniqueFileName(fileName, taken);
+        entries.push({ name: file, data: blob });
+        files.push({ file, node: node.id, chain: upstreamPath(node.id, edges), loudness: adjustment });
+      }
+
+      const graphIds = collectUpstream(outputs.map((n) => n.id), edges);
+      const manifest = {
+        exportedAt: new Date().toISOString(),
+        format: exportSettings.format,
+        normalization: exportSettings.normalize ? { targetLufs: exportSettings.targetLufs } : null,
+        files,
+        nodes: nodes.filter((n) => graphIds.has(n.id)).map(manifestNode),
+        edges: edges
+          .filter((e) => graphIds.has(e.source) && graphIds.has(e.target))
+          .map((e) => ({ source: e.source, target: e.target })),
+      };
+      entries.push({
+        name: "manifest.json",
+        data: new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }),
+      });
+
+      const songs = new Set(outputs.map((n) => exportNameParts(n.id, nodes, edges)[0]));
+      const zipName = exportFileName([songs.size === 1 ? [...songs][0] : "stems", "export"], "zip");
+      downloadBlob(await createZip(entries), zipName);
+    } catch (err) {
+      console.error("Batch export failed:", err);
+      alert(`❌ Export failed: ${(err as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Audible stem/transform outputs whose stem is selected in the Sync panel,
+  // minus those feeding another one: a stem is heard through its transforms,
+  // so only the ends of each chain (every branch of a split one) play and mix.
+  const selectedChainEnds = (nodeList: Node[], edgeList: Edge[]) => {
+    const outputs = nodeList
+      .filter(
+        (n) =>
+          (n.type === "stemNode" || TRANSFORM_NODE_TYPES.includes(n.type ?? "")) &&
+          channelIdsFor(n.id).some((id) => selectedStems.includes(id)) &&
+          isNodeAudible(n.id)
+      )
+      .map((n) => n.id);
+    return outputs.filter((id) => !edgeList.some((e) => e.source === id && outputs.includes(e.target)));
+  };
+
+  // The chain ends that have audio on the transport.
+  const selectedPlayableIds = () =>
+    selectedChainEnds(nodes, edges).filter((id) => transportSnapshot.registeredIds.includes(id));
+
+  const stopAllStems = () => {
+    getTransport().stop();
+  };
+
+  const playAllSelectedStems = () => {
+    getTransport().play(selectedPlayableIds());
+  };
 
-      wavesurfer.current.load(data.audioUrl);
+  const toggleStem = (stemId: string) => {
+  checkpoint();
+  setSelectedStems((prev) =>
+    prev.includes(stemId)
+      ? prev.filter((s) => s !== stemId)
+      : [...prev, stemId]
+  );
+};
 
-      wavesurfer.current.on("play", () => {
-        setIsPlaying(true);
-        data.setPlayingStems((prev) => [...new Set([...prev, data.id])]);
-      });
+// Adds the selected stems to whatever is already playing, at the same playhead.
+const handleSync = () => {
+  if (transportSnapshot.state !== "playing") return alert("No stem is currently playing to sync from.");
+  getTransport().play([...new Set([...transportSnapshot.activeIds, ...selectedPlayableIds()])]);
+};
 
-      wavesurfer.current.on("pause", () => {
-        setIsPlaying(false);
-        data.setPlayingStems((prev) => prev.filter((id) => id !== data.id));
-      });
+  // =================== MIDI ===================
 
-      wavesurfer.current.on("finish", () => {
-        setIsPlaying(false);
-        data.setPlayingStems((prev) => prev.filter((id) => id !== data.id));
-      });
+  const midiSnapshot = useMidi();
 
-      data.registerWaveSurfer(data.id, wavesurfer.current);
+  const effectParamSpec = (nodeId: string, param: string) => {
+    const node = nodesRef.current.find((n) => n.id === nodeId && n.type === "transformEffect");
+    const data = node?.data as TransformEffectNodeData | undefined;
+    const spec = data && effectParamSpecs(data.effect).find((s) => s.key === param);
+    return data && spec ? { data, spec } : undefined;
+  };
 
-      wavesurfer.current.on("ready", () => {
-        data.markReady(data.id);
-      });
-    }
+  // Knob moves on effect parameters, committed once they settle like slider
+  // drags, so a sweep renders the effect once instead of once per message.
+  // Only the keys the knobs moved are kept, so a commit doesn't undo slider
+  // edits made to the node's other parameters in the meantime.
+  const midiParamDrafts = React.useRef(new Map<string, { changes: EffectParams; timer: ReturnType<typeof setTimeout> }>());
 
-    return () => {
-      wavesurfer.current?.destroy();
-      data.registerWaveSurfer(data.id, null);
-    };
-  }, [data.audioUrl]);
+  useEffect(() => {
+    const drafts = midiParamDrafts.current;
+    return () => drafts.forEach(({ timer }) => clearTimeout(timer));
+  }, []);
 
-  const handlePlayPause = () => {
-    if (!wavesurfer.current) return;
-
-    if (!isPlaying) {
-      // stop others before playing
-      data.setPlayingStems((prev) => {
-        prev.forEach((id) => {
-          if (id !== data.id) {
-            const otherWS = (window as any).waveSurferRegistry?.[id];
-            if (otherWS && otherWS.isPlaying()) {
-              otherWS.pause();
-            }
-          }
-        });
-        return prev;
-      });
+  // 0..1 position of a continuous target, for soft takeover.
+  const readMidiTarget = (target: MidiTarget): number | undefined => {
+    if (target.kind === "gain") {
+      if (!nodesRef.current.some((n) => n.id === target.stemId)) return undefined;
+      return (mixerRef.current[target.stemId] ?? DEFAULT_CHANNEL).gain / MAX_GAIN;
     }
-
-    wavesurfer.current.playPause();
+    if (target.kind === "effectParam") {
+      const found = effectParamSpec(target.nodeId, target.param);
+      if (!found) return undefined;
+      const { data, spec } = found;
+      const param =
+        midiParamDrafts.current.get(target.nodeId)?.changes[spec.key] ?? resolveEffectParams(data.effect, data.params)[spec.key];
+      return (param - spec.min) / (spec.max - spec.min);
+    }
+    return undefined;
   };
 
-
-
-  const handleTransformClick = () => {
-    if (!selectedEffect) return alert("Please select an effect first!");
-    data.addTransformNode(data.id, selectedEffect);
-    setSelectedEffect(""); // reset dropdown
+  // ✅ Controller moves go through the same updates as the mouse, so undo coalescing applies to them too
+  const applyMidiTarget = (target: MidiTarget, value: number): number | void => {
+    switch (target.kind) {
+      case "gain": {
+        if (!nodesRef.current.some((n) => n.id === target.stemId)) return;
+        const gain = Math.round(value * MAX_GAIN * 100) / 100;
+        updateChannel(target.stemId, { gain });
+        return gain / MAX_GAIN;
+      }
+      case "mute":
+      case "solo": {
+        if (!nodesRef.current.some((n) => n.id === target.stemId)) return;
+        const channel = mixerRef.current[target.stemId] ?? DEFAULT_CHANNEL;
+        updateChannel(target.stemId, { [target.kind]: !channel[target.kind] });
+        return;
+      }
+      case "effectParam": {
+        const found = effectParamSpec(target.nodeId, target.param);
+        if (!found) return;
+        const { spec } = found;
+        const steps = Math.round((value * (spec.max - spec.min)) / spec.step);
+        const param = Math.min(spec.max, spec.min + steps * spec.step);
+        // Knobs on the same node moved together land in the same render.
+        const drafts = midiParamDrafts.current;
+        const draft = drafts.get(target.nodeId);
+        if (draft) clearTimeout(draft.timer);
+        const changes = { ...draft?.changes, [spec.key]: param };
+        const timer = setTimeout(() => {
+          drafts.delete(target.nodeId);
+          const current = effectParamSpec(target.nodeId, target.param);
+          if (!current) return;
+          updateEffectParams(target.nodeId, { ...resolveEffectParams(current.data.effect, current.data.params), ...changes });
+        }, PARAM_COMMIT_DELAY_MS);
+        drafts.set(target.nodeId, { changes, timer });
+        return (param - spec.min) / (spec.max - spec.min);
+      }
+      case "action":
+        if (target.action === "playAll") playAllSelectedStems();
+        else if (target.action === "stopAll") stopAllStems();
+        else handleSync();
+        return;
+    }
   };
 
-  return (
-    <div
-      className="bg-neutral-900 border rounded-xl shadow-lg p-4 w-80 text-center relative"
-      style={{ borderColor: data.color }}
-    >
-      <Handle type="target" position={Position.Left} style={{ background: data.color }} />
-      {/* <Handle type="source" position={Position.Right} style={{ background: "#fff" }} /> */}
+  // The controller outlives renders; it reaches the latest state through this ref.
+  const midiBindings = React.useRef({ read: readMidiTarget, apply: applyMidiTarget });
+  midiBindings.current = { read: readMidiTarget, apply: applyMidiTarget };
 
-      <div className="flex items-center justify-center gap-2 mb-2 text-sm font-medium text-white">
-        {data.icon}
-        <span>{data.label}</span>
-      </div>
+  useEffect(
+    () =>
+      getMidiController().bind({
+        read: (target) => midiBindings.current.read(target),
+        apply: (target, value) => midiBindings.current.apply(target, value),
+      }),
+    []
+  );
 
-      <div ref={waveformRef} className="w-full h-12 my-2"></div>
+  // Timeline lanes: every stem and transform output, in graph order.
+  const timelineLanes: TimelineLane[] = displayNodes
+    .filter((n) => n.type === "stemNode" || TRANSFORM_NODE_TYPES.includes(n.type ?? ""))
+    .map((n) => {
+      const data = n.data as PlayableNodeData;
+      return {
+        id: n.id,
+        label: outputLabel(n),
+        color: data.color,
+        audioUrl: data.audioUrl,
+        offset: data.offset ?? 0,
+        audible: data.audible ?? true,
+      };
+    });
 
-      {data.audioUrl && (
-        <button
-          onClick={handlePlayPause}
-          className="mt-2 p-2 w-full rounded bg-neutral-800 hover:bg-neutral-700 transition text-white"
-        >
-          {isPlaying ? <LuPause style={{ color: data.color }} /> : <LuPlay style={{ color: data.color }} />}
-        </button>
-      )}
+  const updateClipOffset = (id: string, offset: number) => {
+    checkpoint(`offset:${id}`);
+    updateNodeData<PlayableNodeData>(id, { offset });
+  };
 
-      {/* ✅ Transform Dropdown + Button */}
-      <div className="mt-3 flex gap-2 items-center">
-        <select
-          className="flex-1 bg-neutral-800 border border-neutral-600 rounded p-1 text-sm text-white"
-          value={selectedEffect}
-          onChange={(e) => setSelectedEffect(e.target.value)}
-        >
-          <option value="">Select effect</option>
-          <option value="reverb">Reverb</option>
-          <option value="lofi">Lo-fi</option>
-          <option value="vintage">Vintage</option>
-          <option value="robotic">Robotic</option>
-        </select>
-        <button
-          onClick={handleTransformClick}
-          className="p-2 bg-purple-600 rounded hover:bg-purple-500 transition text-white"
-        >
-          <LuArrowRight />
-        </button>
-      </div>
-    </div>
+  // Sync panel rows: every song's stems (or recorder's takes) under the node they came from.
+  const sourceNodes = nodes.filter((n) => n.type === "sourceNode");
+  const hasSong = sourceNodes.some((n) => (n.data as SourceNodeData).file);
+  const stemGroups = nodes
+    .filter((n) => n.type === "sourceNode" || n.type === "recordNode")
+    .map((source) => ({
+      source,
+      stems: nodes.filter((n) => n.type === "stemNode" && (n.data as StemNodeData).sourceId === source.id),
+    }))
+    .filter((group) => group.stems.length > 0);
+  const stemCount = stemGroups.reduce((sum, group) => sum + group.stems.length, 0);
+  const selectedCount = stemGroups.reduce(
+    (sum, group) => sum + group.stems.filter((stem) => selectedStems.includes(stem.id)).length,
+    0
   );
-};
 
-const TransformEffectNode: React.FC<NodeProps<TransformEffectNodeData>> = ({ data }) => {
-  return (
-    <div className="bg-purple-900 border border-purple-500 rounded-lg shadow-md p-3 w-44 text-white">
-      <div className="text-sm font-semibold mb-2">🎨 {data.effect}</div>
-      <p className="text-xs opacity-80">Effect applied to {data.label}</p>
-      <Handle type="target" position={Position.Left} style={{ background: "#a855f7" }} />
-    </div>
-  );
-};
+  // =================== RECORDING ===================
 
-const nodeTypes = {
-  stemNode: StemNode,
-  sourceNode: SourceNode,
-  transformEffect: TransformEffectNode,
-};
+  // ✅ Add an empty Record node below everything else
+  const addRecordNode = () => {
+    checkpoint();
+    const id = `record-${Date.now()}`;
+    const count = nodesRef.current.filter((n) => n.type === "recordNode").length;
+    const bottom = Math.max(0, ...nodesRef.current.map((n) => n.position.y));
+    const recordNode = hydrateNode({
+      id,
+      type: "recordNode",
+      position: { x: 0, y: bottom + 400 },
+      data: { id, label: count > 0 ? `Recording ${count + 1}` : "Recording", part: "Vocals" },
+      sourcePosition: Position.Right,
+    });
+    setNodes((prev) => [...prev, recordNode]);
+  };
 
-// =================== INITIAL STATE ===================
+  const updateRecordSettings = (id: string, patch: Partial<Pick<RecordNodeData, "part" | "latencyMs">>) => {
+    checkpoint("latencyMs" in patch ? `record:${id}:latency` : undefined);
+    updateNodeData<RecordNodeData>(id, patch);
+  };
 
-const initialNodes: Node<CustomNodeData>[] = [
-  {
-    id: "1",
-    type: "sourceNode",
-    position: { x: 0, y: 0 },
-    data: { label: "Source" },
-    sourcePosition: Position.Right,
-  },
-];
+  // What a take is recorded over: the selected stems, exactly as Play All would
+  // play them. Read through refs because the Record node holds this callback.
+  const backingTrackIds = () => {
+    const nodeList = nodesRef.current;
+    const registered = getTransport().getSnapshot().registeredIds;
+    return nodeList
+      .filter((n) => {
+        if (n.type !== "stemNode" && !TRANSFORM_NODE_TYPES.includes(n.type ?? "")) return false;
+        const channelIds = channelIdsOf(n.id, nodeList, edgesRef.current);
+        return (
+          channelIds.some((id) => selectedStemsRef.current.includes(id)) &&
+          registered.includes(n.id) &&
+          isAudibleThrough(channelIds, mixerRef.current)
+        );
+      })
+      .map((n) => n.id);
+  };
 
-// =================== MAIN APP ===================
+  // ✅ Open the microphone and start the backing track from the playhead
+  const startTake = async (recordId: string) => {
+    if (recordingSession.current) return alert("Another take is already being recorded.");
+    updateNodeData<RecordNodeData>(recordId, { error: undefined });
+    let session: RecordingSession;
+    try {
+      session = await startRecording();
+    } catch (err) {
+      console.error("Could not open the microphone:", err);
+      const denied = (err as Error).name === "NotAllowedError";
+      updateNodeData<RecordNodeData>(recordId, {
+        error: denied ? "Microphone access was denied." : "Could not open the microphone.",
+      });
+      return;
+    }
 
-export default function App() {
-  const [file, setFile] = useState<File | null>(null);
-  const [fileUrl, setFileUrl] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
-  const [gradioClient, setGradioClient] = useState<any | null>(null);
-  const [playingStems, setPlayingStems] = useState<string[]>([]);
-  const [waveSurfers, setWaveSurfers] = useState<Record<string, WaveSurfer | null>>({});
-  const [readyMap, setReadyMap] = useState<Record<string, boolean>>({});
+    // Takes run straight through, so the loop is lifted until the take ends.
+    const transport = getTransport();
+    const { loop } = transport.getSnapshot();
+    transport.setLoop(null);
+    transport.play(backingTrackIds());
+    const contextTime = getAudioContext().currentTime;
+    recordingSession.current = {
+      nodeId: recordId,
+      session,
+      accompanied: transport.getSnapshot().state === "playing",
+      clock: { contextTime, position: transport.positionAt(contextTime) },
+      loop,
+    };
+    updateNodeData<RecordNodeData>(recordId, { recording: true });
+  };
 
-  const registerWaveSurfer = (id: string, ws: WaveSurfer | null) => {
-    setWaveSurfers((prev) => ({ ...prev, [id]: ws }));
+  // ✅ Stop, line the take up with the backing track and add it as a stem
+  const stopTake = async (recordId: string) => {
+    const current = recordingSession.current;
+    if (!current || current.nodeId !== recordId) return;
+    recordingSession.current = null;
+    const transport = getTransport();
+    const recordData = nodesRef.current.find((n) => n.id === recordId)?.data as RecordNodeData | undefined;
+
+    try {
+      const take = await current.session.stop();
+      const position = current.clock.position + (take.startTime - current.clock.contextTime);
+      // Without a backing track there is nothing to line up with.
+      const latency = current.accompanied ? take.latency + (recordData?.latencyMs ?? 0) / 1000 : 0;
+      const { buffer, offset } = alignTake(take, position, latency);
+      addTake(recordId, URL.createObjectURL(encodeWav(buffer)), offset, Math.round(take.latency * 1000));
+    } catch (err) {
+      console.error("Recording failed:", err);
+      updateNodeData<RecordNodeData>(recordId, { recording: false, error: (err as Error).message });
+    } finally {
+      if (current.accompanied) transport.stop();
+      transport.setLoop(current.loop);
+    }
   };
 
-  const markReady = (id: string) => {
-    setReadyMap((prev) => ({ ...prev, [id]: true }));
+  const cancelTake = () => {
+    const current = recordingSession.current;
+    if (!current) return;
+    recordingSession.current = null;
+    current.session.cancel();
+    getTransport().setLoop(current.loop);
   };
 
-  // ✅ Function to spawn transform effect node
-  const addTransformNode = (parentId: string, effect: string) => {
-    const parentNode = nodes.find((n) => n.id === parentId);
-    if (!parentNode) return;
+  // A take joins the graph as a stem of its Record node and is selected for sync,
+  // like a freshly separated stem, so it can be transformed, mixed or swapped in.
+  const addTake = (recordId: string, audioUrl: string, offset: number, measuredLatencyMs: number) => {
+    const recordNode = nodesRef.current.find((n) => n.id === recordId);
+    if (!recordNode) return;
+    checkpoint();
+    const data = recordNode.data as RecordNodeData;
+    const take = (data.takeCount ?? 0) + 1;
+    const id = `${recordId}-take-${take}`;
+    const color = getStemColor(data.part);
+    const previousTakes = nodesRef.current.filter(
+      (n) => n.type === "stemNode" && (n.data as StemNodeData).sourceId === recordId
+    ).length;
 
-    const newNodeId = `transform-${parentId}-${Date.now()}`;
-    const newNode: Node<TransformEffectNodeData> = {
-      id: newNodeId,
-      type: "transformEffect",
-      position: { x: parentNode.position.x + 300, y: parentNode.position.y },
-      data: {
-        label: (parentNode.data as StemNodeData).label,
-        effect,
-        color: "#a855f7",
-      },
+    const takeNode = hydrateNode({
+      id,
+      type: "stemNode",
+      position: { x: recordNode.position.x + 400, y: recordNode.position.y + previousTakes * 180 },
+      data: { id, label: data.part, color, sourceId: recordId, take, sourceUrl: audioUrl, audioUrl, offset },
       targetPosition: Position.Left,
-    };
-
-    setNodes((prev) => [...prev, newNode]);
+    });
+    setNodes((prev) => [
+      ...prev.map((n) =>
+        n.id === recordId ? { ...n, data: { ...n.data, recording: false, takeCount: take, measuredLatencyMs } } : n
+      ),
+      takeNode,
+    ]);
     setEdges((prev) => [
       ...prev,
-      {
-        id: `edge-${parentId}-${newNodeId}`,
-        source: parentId,
-        target: newNodeId,
-        type: "musicEdge",
-        style: { stroke: "#a855f7" },
-      },
+      { id: `e${recordId}-${id}`, source: recordId, target: id, type: "musicEdge", animated: false, style: { stroke: color } },
     ]);
+    setSelectedStems((prev) => [...prev, id]);
   };
 
-  // ✅ Handle file upload
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.length) {
-      const selectedFile = e.target.files[0];
-      const url = URL.createObjectURL(selectedFile);
-      setFile(selectedFile);
-      setFileUrl(url);
+  // =================== SONG → COVER ===================
 
-      setNodes((nds) =>
-        nds.map((node) =>
-          node.id === "1"
-            ? { ...node, data: { ...node.data, file: selectedFile, audioUrl: url } }
-            : node
-        )
+  // Cover steps waiting for the graph to change.
+  const graphWaiters = React.useRef(new Set<() => void>());
+  useEffect(() => graphWaiters.current.forEach((wake) => wake()), [nodes, edges]);
+
+  // Resolves with the first result of `check` other than undefined, checking
+  // now and after every graph change; a throw from `check` or an abort rejects.
+  const untilGraph = <T,>(check: () => T | undefined, signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const finish = () => {
+        graphWaiters.current.delete(wake);
+        signal.removeEventListener("abort", wake);
+      };
+      const wake = () => {
+        try {
+          signal.throwIfAborted();
+          const result = check();
+          if (result === undefined) return;
+          finish();
+          resolve(result);
+        } catch (err) {
+          finish();
+          reject(err);
+        }
+      };
+      graphWaiters.current.add(wake);
+      signal.addEventListener("abort", wake);
+      wake();
+    });
+
+  // Hangs each stem's recipe off it as ordinary transform nodes and selects
+  // exactly the stems that go into the cover. Returns the new nodes' ids.
+  const buildCoverChains = useEventCallback((stems: Node[], recipe: CoverRecipe) => {
+    checkpoint();
+    const chainNodes: Node[] = [];
+    const chainEdges: Edge[] = [];
+    stems.forEach((stem) => {
+      let parent = stem;
+      stemRecipe(recipe, stem.data.label).steps.forEach((step) => {
+        if (!isTransformType(step.transform)) return;
+        const { node, edge } = createTransformNode(parent, step.transform);
+        const configured =
+          step.model && node.type === "styleTransfer"
+            ? { ...node, data: { ...node.data, params: { ...DEFAULT_STYLE_PARAMS, model: step.model } } }
+            : node;
+        chainNodes.push(configured);
+        chainEdges.push(edge);
+        parent = configured;
+      });
+    });
+    setNodes((prev) => [...prev, ...chainNodes]);
+    setEdges((prev) => [...prev, ...chainEdges]);
+    setSelectedStems(stems.filter((stem) => stemRecipe(recipe, stem.data.label).keep).map((stem) => stem.id));
+    return chainNodes.map((node) => node.id);
+  });
+
+  // Called once the graph has caught up, so each runs with the latest state.
+  const startStyleTransfer = useEventCallback(runStyleTransfer);
+  const mixCover = useEventCallback(handleMixdown);
+
+  // ✅ Separate the song, build the recipe onto its stems and mix the result,
+  // each stage waiting for the graph to fill in
+  const runCover = async (
+    sourceId: string,
+    recipe: CoverRecipe,
+    signal: AbortSignal,
+    onStage: (stage: CoverStage) => void
+  ) => {
+    const stemsOf = (nodeList: Node[]) =>
+      nodeList.filter((n) => n.type === "stemNode" && (n.data as StemNodeData).sourceId === sourceId);
+    const checkSource = () => {
+      if (!nodesRef.current.some((n) => n.id === sourceId)) throw new Error("the song was removed.");
+    };
+
+    onStage("separating");
+    // Stems from an earlier separation are replaced, not reused.
+    const previous = new Set(stemsOf(nodesRef.current));
+    if (!(await separateSource(sourceId))) return; // separateSource reports why
+    const stems = await untilGraph(() => {
+      checkSource();
+      const current = stemsOf(nodesRef.current);
+      if (current.length === 0 || current.some((stem) => previous.has(stem))) return undefined;
+      const failed = current.find((stem) => (stem.data as StemNodeData).error);
+      if (failed) throw new Error((failed.data as StemNodeData).error);
+      if (current.some((stem) => (stem.data as StemNodeData).cancelled)) throw new Error("the separation was cancelled.");
+      return current.every((stem) => stem.data.audioUrl && !stem.data.loading) ? current : undefined;
+    }, signal);
+
+    onStage("transforming");
+    const chainIds = buildCoverChains(stems, recipe);
+    const keptIds = stems.filter((stem) => stemRecipe(recipe, stem.data.label).keep).map((stem) => stem.id);
+    const started = new Set<string>(); // style transfer nodes already sent off
+    let placed = false;
+    await untilGraph(() => {
+      checkSource();
+      const nodeList = nodesRef.current;
+      const edgeList = edgesRef.current;
+      placed ||= chainIds.every((id) => nodeList.some((n) => n.id === id));
+      if (!placed) return undefined;
+      const chain = nodeList.filter(
+        (n) =>
+          TRANSFORM_NODE_TYPES.includes(n.type ?? "") &&
+          channelIdsOf(n.id, nodeList, edgeList).some((id) => keptIds.includes(id))
       );
+      const failed = chain.find((n) => n.data.error);
+      if (failed) throw new Error(`${outputLabel(failed)}: ${failed.data.error}`);
 
-      setEdges([]);
+      // Style transfer doesn't render by itself; send each node once its input is ready.
+      chain
+        .filter((n) => n.type === "styleTransfer" && !started.has(n.id) && readyInputUrls(n.id, nodeList, edgeList))
+        .forEach((n) => {
+          started.add(n.id);
+          startStyleTransfer(n.id);
+        });
+      return chain.every((n) => n.data.audioUrl && !n.data.loading) || undefined;
+    }, signal);
+
+    onStage("mixing");
+    signal.throwIfAborted();
+    await mixCover(); // a failed mixdown reports why itself
+  };
+
+  const startCover = async (sourceId: string, recipe: CoverRecipe) => {
+    setCoverEditorFor(null);
+    saveCoverRecipe(recipe);
+    if (coverRun) return alert("A cover is already being made.");
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(new Error("it took too long.")), COVER_TIMEOUT_MS);
+    let stage: CoverStage = "separating";
+    try {
+      await runCover(sourceId, recipe, controller.signal, (next) => {
+        stage = next;
+        setCoverRun({ sourceId, stage, controller });
+      });
+    } catch (err) {
+      // A separation left behind would finish into a cover nobody is making.
+      if (controller.signal.aborted && stage === "separating") {
+        const { jobId } = (nodesRef.current.find((n) => n.id === sourceId)?.data ?? {}) as SourceNodeData;
+        if (jobId) getJobManager().cancel(jobId);
+      }
+      if ((err as Error).name !== "AbortError") {
+        console.error("Cover failed:", err);
+        alert(`❌ Cover stopped: ${(err as Error).message}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+      setCoverRun(null);
     }
   };
 
-  const [selectedStems, setSelectedStems] = useState<string[]>([
-  "Drums",
-  "Bass",
-  "Other",
-  "Vocals",
-]);
+  // =================== UNDO / REDO ===================
 
-  // ✅ Animate edges when audio is playing
-  useEffect(() => {
-    setEdges((eds) =>
-      eds.map((edge) => ({
-        ...edge,
-        animated: playingStems.includes(edge.target),
-      }))
+  const restoreSnapshot = (snapshot: EditorSnapshot | undefined) => {
+    if (!snapshot) return;
+    const recordingId = recordingSession.current?.nodeId;
+    if (recordingId && !snapshot.nodes.some((n) => n.id === recordingId)) cancelTake();
+    const current = nodesRef.current;
+    knownNodeIds.current = new Set(snapshot.nodes.map((n) => n.id));
+    setNodes(
+      snapshot.nodes.map((node) => {
+        const live = current.find((n) => n.id === node.id);
+        if (!live) {
+          // A node brought back mid-render renders again instead of waiting forever.
+          if ((node.data as PlayableNodeData).loading) delete renderedSignatures.current[node.id];
+          return node;
+        }
+        const edited = Object.fromEntries(
+          (EDITABLE_DATA_KEYS[node.type ?? ""] ?? []).map((key) => [key, node.data[key]])
+        );
+        return { ...live, position: node.position, data: { ...live.data, ...edited } };
+      })
     );
-  }, [playingStems]);
+    setEdges(snapshot.edges);
+    setMixer(snapshot.mixer);
+    setSelectedStems(snapshot.selectedStems);
+  };
 
-  // ✅ Separate stems logic unchanged EXCEPT we add transform dropdown in each stem node now
-  const handleSeparate = async () => {
-    if (!file) return alert("Please upload a file first.");
-    if (!gradioClient) return alert("Gradio client is loading. Try again.");
-
-    setIsLoading(true);
-    setEdges([]);
-
-    const stems = [
-      { id: "2", label: "Drums", icon: <LuDrum />, color: EDGE_COLORS.Drums, y: -180 },
-      { id: "3", label: "Bass", icon: <LuMusic />, color: EDGE_COLORS.Bass, y: 0 },
-      { id: "4", label: "Other", icon: <LuGuitar />, color: EDGE_COLORS.Other, y: 180 },
-      { id: "5", label: "Vocals", icon: <LuMic />, color: EDGE_COLORS.Vocals, y: 360 },
-    ];
+  const undo = () => restoreSnapshot(history.undo(currentSnapshot()));
+  const redo = () => restoreSnapshot(history.redo(currentSnapshot()));
 
-    const placeholderNodes: Node<CustomNodeData>[] = stems.map((stem) => ({
-      id: stem.id,
-      type: "stemNode",
-      position: { x: 400, y: stem.y },
-      data: {
-        label: stem.label,
-        color: stem.color,
-        icon: stem.icon,
-        id: stem.id,
-        loading: true,
-        playingStems,
-        setPlayingStems,
-        registerWaveSurfer,
-        markReady,
-        addTransformNode,
-      },
-      targetPosition: Position.Left,
-    }));
+  // =================== PROJECT SAVE / LOAD ===================
 
-    const placeholderEdges: Edge[] = stems.map((stem) => ({
-      id: `e1-${stem.id}`,
-      source: "1",
-      target: stem.id,
-      type: "musicEdge",
-      animated: false,
-      style: { stroke: stem.color },
-    }));
+  // Re-attach the callbacks that node components expect; they are never serialized.
+  const hydrateNode = (node: Node): Node<CustomNodeData> => {
+    switch (node.type) {
+      case "sourceNode":
+        return {
+          ...node,
+          data: { ...node.data, replaceFile: replaceSourceFile, separate: separateSource, makeCover: setCoverEditorFor },
+        };
+      case "recordNode":
+        return { ...node, data: { ...node.data, startTake, stopTake, updateRecordSettings } };
+      case "stemNode":
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            addTransformNode,
+            exportAudio,
+            updateChannel,
+            retrySeparation,
+            updateEdits: updateStemEdits,
+          },
+        };
+      case "transformEffect":
+        return { ...node, data: { ...node.data, addTransformNode, exportAudio, updateEffectParams, auditionDry } };
+      case "styleTransfer":
+        return {
+          ...node,
+          data: { ...node.data, addTransformNode, exportAudio, updateStyleParams, runStyleTransfer },
+        };
+      case "match":
+        return { ...node, data: { ...node.data, addTransformNode, exportAudio, updateMatchTarget } };
+      default:
+        return node;
+    }
+  };
 
-    setNodes((prev) => [...prev, ...placeholderNodes]);
-    setEdges([...placeholderEdges]);
+  // What save and autosave write; a new object only when part of it changes.
+  const projectState = React.useMemo<ProjectState>(
+    () => ({
+      nodes,
+      edges,
+      mixer,
+      settings: { backendId, stemSetId, selectedStems, loop: transportSnapshot.loop, midi: midiSnapshot.mappings },
+    }),
+    [nodes, edges, mixer, backendId, stemSetId, selectedStems, transportSnapshot.loop, midiSnapshot.mappings]
+  );
 
-    try {
-      const app = await gradioClient.client("ahk-d/HT-Demucs-Stem-Separation-2025");
-      const result = await app.predict("/separate_stems", [gradioClient.handle_file(file)]);
-      const [drumsData, bassData, otherData, vocalsData] = result.data;
-
-      const urls = {
-        Drums: drumsData?.url,
-        Bass: bassData?.url,
-        Other: otherData?.url,
-        Vocals: vocalsData?.url,
-      };
+  const applyProjectState = (state: ProjectState) => {
+    cancelTake();
+    getTransport().stop();
+    history.clear();
+    // Restored effect outputs are already rendered from the restored inputs.
+    renderedSignatures.current = Object.fromEntries([
+      ...state.nodes
+        .filter((n) => AUTO_RENDER_TYPES.includes(n.type ?? "") && (n.data as PlayableNodeData).audioUrl)
+        .map((n) => [n.id, renderPlan(n.id, state.nodes, state.edges).signature]),
+      ...state.nodes
+        .filter((n) => n.type === "stemNode" && (n.data as StemNodeData).sourceUrl)
+        .map((n) => [n.id, editSignature(n.data as StemNodeData)]),
+    ]);
+    knownNodeIds.current = new Set(state.nodes.map((n) => n.id));
+    setNodes(state.nodes.map(hydrateNode));
+    setEdges(state.edges);
+    setMixer(state.mixer);
+    setBackendId(state.settings.backendId);
+    setStemSetId(state.settings.stemSetId);
+    setSelectedStems(state.settings.selectedStems);
+    getTransport().setLoop(state.settings.loop ?? null);
+    getMidiController().setMappings(state.settings.midi ?? []);
 
-      setNodes((prev) =>
-        prev.map((node) => {
-          if (["2", "3", "4", "5"].includes(node.id)) {
-            const label = (node.data as StemNodeData).label;
-            return {
-              ...node,
-              data: {
-                ...(node.data as StemNodeData),
-                loading: false,
-                audioUrl: urls[label as keyof typeof urls],
-              },
-            };
-          }
-          return node;
-        })
-      );
+    // Projects saved before input checks or tempo/key detection get them on load.
+    state.nodes.forEach((n) => {
+      const data = n.data as SourceNodeData;
+      if (n.type !== "sourceNode" || !data.audioUrl) return;
+      if (data.file && !data.stats) loadSourceAudio(n.id, data.file, data.audioUrl);
+      else if (!data.analysis) analyzeSource(n.id, data.audioUrl);
+    });
+  };
+
+  const handleSaveProject = async () => {
+    setIsSavingProject(true);
+    try {
+      const bundle = await snapshotProject(projectState);
+      const blob = await exportProjectFile(bundle);
+      const firstSong = nodes
+        .map((n) => (n.type === "sourceNode" ? (n.data as SourceNodeData).file : undefined))
+        .find(Boolean);
+      downloadBlob(blob, `${firstSong ? songName(firstSong) : "remix"}${PROJECT_FILE_EXTENSION}`);
     } catch (err) {
-      console.error("Separation failed:", err);
-      alert("❌ Stem separation failed.");
+      console.error("Project export failed:", err);
+      alert("❌ Could not save the project. Some stem audio may have expired.");
     } finally {
-      setIsLoading(false);
+      setIsSavingProject(false);
     }
   };
-const stopAllStems = () => {
-  Object.entries(waveSurfers).forEach(([id, ws]) => {
-    if (ws?.isPlaying()) {
-      ws.pause();
-    }
-  });
-  setPlayingStems([]);
-};
-
-const playAllSelectedStems = () => {
-  const activeWS = Object.values(waveSurfers).find((ws) => ws?.isPlaying());
-  const syncTime = activeWS ? activeWS.getCurrentTime() : 0;
-
-  Object.entries(waveSurfers).forEach(([id, ws]) => {
-    if (!ws) return;
-    
-    const node = nodes.find((n) => n.id === id);
-    const label = node?.data?.label as string;
-    
-    if (selectedStems.includes(label) && readyMap[id]) {
-      if (syncTime > 0) {
-        ws.seekTo(syncTime / ws.getDuration());
-      }
-      if (!ws.isPlaying()) {
-        ws.play();
-      }
+
+  const handleOpenProject = async (e: ChangeEvent<HTMLInputElement>) => {
+    const projectFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!projectFile) return;
+
+    try {
+      applyProjectState(restoreProject(await importProjectFile(projectFile)));
+    } catch (err) {
+      console.error("Project import failed:", err);
+      alert(`❌ Could not open project: ${(err as Error).message}`);
     }
-  });
-};
+  };
 
-  // ✅ Load Gradio Client dynamically
-  useEffect(() => {
-    const script = document.createElement("script");
-    script.src = "https://cdn.jsdelivr.net/npm/@gradio/client/dist/index.min.js";
-    script.type = "module";
-
-    script.onload = () => {
-      (async () => {
-        const gradio = await import(
-          /* webpackIgnore: true */ "https://cdn.jsdelivr.net/npm/@gradio/client/dist/index.min.js"
-        );
-        setGradioClient(gradio);
-      })();
-    };
+  const handleNewProject = () => {
+    if (!confirm("Start a new project? Unsaved changes will be lost.")) return;
+    const backend = getSeparationBackend(DEFAULT_BACKEND_ID);
+    applyProjectState({
+      nodes: initialNodes,
+      edges: [],
+      mixer: {},
+      settings: {
+        backendId: backend.id,
+        stemSetId: backend.stemSets[0].id,
+        selectedStems: [],
+        loop: null,
+      },
+    });
+    clearSession().catch((err) => console.warn("Could not clear autosave:", err));
+  };
 
-    document.body.appendChild(script);
-    return () => document.body.removeChild(script);
-  }, []);
+  // =================== COMMANDS ===================
 
-  const toggleStem = (stem: string) => {
-  setSelectedStems((prev) =>
-    prev.includes(stem)
-      ? prev.filter((s) => s !== stem)
-      : [...prev, stem]
-  );
-};
+  // Space: pause, resume the paused selection, or start every selected stem.
+  const togglePlayback = () => {
+    const transport = getTransport();
+    const { state, activeIds } = transport.getSnapshot();
+    if (state === "playing") return transport.pause();
+    if (activeIds.length > 0) return transport.play(activeIds);
+    playAllSelectedStems();
+  };
 
-const handleSync = () => {
-  const activeWS = Object.values(waveSurfers).find((ws) => ws?.isPlaying());
-  if (!activeWS) return alert("No stem is currently playing to sync from.");
+  // Number keys follow the Sync panel order: 1-9 toggle a stem, shift solos it.
+  const syncStems = stemGroups.flatMap((group) => group.stems);
+  const stemTitle = (stem: Node) => (stemGroups.length > 1 ? outputLabel(stem) : stem.data.label);
+  const transformTargets = nodes.filter((n) => n.type === "stemNode" || TRANSFORM_NODE_TYPES.includes(n.type ?? ""));
 
-  const currentTime = activeWS.getCurrentTime();
+  const midiTargets: MidiTargetOption[] = [
+    { target: { kind: "action", action: "playAll" }, label: "Play All", group: "Transport" },
+    { target: { kind: "action", action: "stopAll" }, label: "Stop All", group: "Transport" },
+    { target: { kind: "action", action: "sync" }, label: "Sync", group: "Transport" },
+    ...syncStems.flatMap((stem): MidiTargetOption[] => [
+      { target: { kind: "gain", stemId: stem.id }, label: "Gain", group: stemTitle(stem) },
+      { target: { kind: "mute", stemId: stem.id }, label: "Mute", group: stemTitle(stem) },
+      { target: { kind: "solo", stemId: stem.id }, label: "Solo", group: stemTitle(stem) },
+    ]),
+    ...nodes
+      .filter((n) => n.type === "transformEffect")
+      .flatMap((n) =>
+        effectParamSpecs((n.data as TransformEffectNodeData).effect).map(
+          (spec): MidiTargetOption => ({
+            target: { kind: "effectParam", nodeId: n.id, param: spec.key },
+            label: spec.label,
+            group: outputLabel(n),
+          })
+        )
+      ),
+  ];
 
-  Object.entries(waveSurfers).forEach(([id, ws]) => {
-    if (!ws) return;
+  const commands: Command[] = [
+    { id: "palette", title: "Command palette", group: "General", shortcuts: ["mod+k"], run: () => setShowPalette(true) },
+    { id: "transport.toggle", title: "Play / pause", group: "Transport", shortcuts: ["space"], run: togglePlayback },
+    { id: "transport.stop", title: "Stop all", group: "Transport", shortcuts: ["escape"], run: stopAllStems },
+    {
+      id: "transport.play-selected",
+      title: "Play selected stems",
+      group: "Transport",
+      disabled: selectedCount === 0,
+      run: playAllSelectedStems,
+    },
+    {
+      id: "transport.sync",
+      title: "Sync selected stems",
+      group: "Transport",
+      disabled: selectedCount === 0,
+      run: handleSync,
+    },
+    {
+      id: "transport.clear-loop",
+      title: "Clear loop",
+      group: "Transport",
+      disabled: !transportSnapshot.loop,
+      run: () => getTransport().setLoop(null),
+    },
+    { id: "edit.undo", title: "Undo", group: "Edit", shortcuts: ["mod+z"], disabled: !canUndo, run: undo },
+    {
+      id: "edit.redo",
+      title: "Redo",
+      group: "Edit",
+      shortcuts: ["shift+mod+z", "mod+y"],
+      disabled: !canRedo,
+      run: redo,
+    },
+    {
+      id: "edit.delete",
+      title: "Delete selected nodes",
+      group: "Edit",
+      keywords: ["remove"],
+      shortcuts: ["delete", "backspace"],
+      run: removeSelection,
+    },
+    {
+      id: "export.mix",
+      title: "Export mix",
+      group: "Export",
+      keywords: ["mixdown", "download", "wav"],
+      disabled: selectedCount === 0 || isMixing,
+      run: handleMixdown,
+    },
+    {
+      id: "export.all",
+      title: "Export all stems and outputs (zip)",
+      group: "Export",
+      keywords: ["download", "wav", "flac", "opus", "batch"],
+      disabled: exportableNodes(nodes).length === 0 || isExporting,
+      run: handleExportAll,
+    },
+    {
+      id: "midi.connect",
+      title: "Connect MIDI controller",
+      group: "MIDI",
+      keywords: ["controller", "fader", "knob"],
+      disabled: midiSnapshot.status === "ready" || midiSnapshot.status === "connecting",
+      run: () => getMidiController().enable(),
+    },
+    {
+      id: "midi.cancel-learn",
+      title: "Cancel MIDI learn",
+      group: "MIDI",
+      disabled: !midiSnapshot.learning,
+      run: () => getMidiController().learn(null),
+    },
+    { id: "project.new", title: "New project", group: "Project", run: handleNewProject },
+    { id: "project.open", title: "Open project", group: "Project", shortcuts: ["mod+o"], run: () => projectInputRef.current?.click() },
+    { id: "project.save", title: "Save project", group: "Project", shortcuts: ["mod+s"], run: handleSaveProject },
+    {
+      id: "view.timeline",
+      title: showTimeline ? "Hide arrangement timeline" : "Show arrangement timeline",
+      group: "View",
+      run: () => setShowTimeline((shown) => !shown),
+    },
+    { id: "view.arrange", title: "Arrange graph", group: "View", keywords: ["layout", "tidy"], run: handleArrange },
+    {
+      id: "view.autoLayout",
+      title: autoLayout ? "Turn off automatic layout" : "Turn on automatic layout",
+      group: "View",
+      keywords: ["arrange", "tidy"],
+      run: toggleAutoLayout,
+    },
+    {
+      id: "view.minimap",
+      title: showMinimap ? "Hide minimap" : "Show minimap",
+      group: "View",
+      keywords: ["overview"],
+      run: () => setShowMinimap((shown) => !shown),
+    },
+    ...groupFrames.map((frame) => ({
+      id: `view.group.${frame.data.sourceId}`,
+      title: `${frame.data.collapsed ? "Expand" : "Collapse"} ${frame.data.label}`,
+      group: "View",
+      keywords: ["group", "fold"],
+      run: () => toggleGroup(frame.data.sourceId),
+    })),
+    ...sourceNodes
+      .filter((source) => (source.data as SourceNodeData).file)
+      .map((source) => ({
+        id: `separate.${source.id}`,
+        title: `Separate ${(source.data as SourceNodeData).file!.name}`,
+        group: "Songs",
+        keywords: ["split", "stems"],
+        run: () => separateSource(source.id),
+      })),
+    ...sourceNodes
+      .filter((source) => (source.data as SourceNodeData).file)
+      .map((source) => ({
+        id: `cover.${source.id}`,
+        title: `Make a cover of ${(source.data as SourceNodeData).file!.name}`,
+        group: "Songs",
+        keywords: ["pipeline", "recipe"],
+        disabled: coverRun !== null,
+        run: () => setCoverEditorFor(source.id),
+      })),
+    { id: "record.add", title: "Add record node", group: "Recording", keywords: ["microphone", "take", "overdub"], run: addRecordNode },
+    ...nodes
+      .filter((n) => n.type === "recordNode")
+      .map((recorder) => {
+        const data = recorder.data as RecordNodeData;
+        return {
+          id: `record.toggle.${recorder.id}`,
+          title: data.recording ? `Stop take on ${data.label}` : `Record a take on ${data.label}`,
+          group: "Recording",
+          keywords: ["microphone"],
+          run: () => (data.recording ? stopTake(recorder.id) : startTake(recorder.id)),
+        };
+      }),
+    ...syncStems.flatMap((stem, i) => [
+      {
+        id: `stems.toggle.${stem.id}`,
+        title: `Toggle ${stemTitle(stem)} for sync`,
+        group: "Stems",
+        keywords: ["select"],
+        shortcuts: i < 9 ? [`${i + 1}`] : undefined,
+        run: () => toggleStem(stem.id),
+      },
+      {
+        id: `stems.solo.${stem.id}`,
+        title: `Solo ${stemTitle(stem)}`,
+        group: "Stems",
+        shortcuts: i < 9 ? [`shift+${i + 1}`] : undefined,
+        run: () => updateChannel(stem.id, { solo: !(mixer[stem.id] ?? DEFAULT_CHANNEL).solo }),
+      },
+    ]),
+    ...transformTargets.flatMap((node) =>
+      TRANSFORM_OPTIONS.map((option) => ({
+        id: `transform.${option.value}.${node.id}`,
+        title: `Add ${option.label} to ${outputLabel(node)}`,
+        group: "Transforms",
+        keywords: ["effect"],
+        run: () => addTransformNode(node.id, option.value),
+      }))
+    ),
+    ...exportableNodes(nodes).map((node) => ({
+      id: `export.node.${node.id}`,
+      title: `Export ${outputLabel(node)}`,
+      group: "Export",
+      keywords: ["download"],
+      run: () => exportAudio(node.id),
+    })),
+  ];
 
-    const label = nodes.find((n) => n.id === id)?.data?.label as string;
-    if (selectedStems.includes(label)) {
-      if (readyMap[id]) {
-        ws.seekTo(currentTime / ws.getDuration());
-        if (!ws.isPlaying()) ws.play();
-      }
-    }
+  useKeyboardShortcuts(commands);
+
+  // ✅ Offer to restore the autosaved session once on startup
+  const startSession = useEventCallback(() => {
+    setNodes((prev) => prev.map(hydrateNode));
+    setPreflightSettings(loadPreflightSettings());
+    setExportSettings(loadExportSettings());
+    setAutoLayout(loadAutoLayout());
+    loadSession()
+      .then((bundle) => {
+        if (bundle && bundle.manifest.nodes.length > 1 && confirm("Restore your previous session?")) {
+          applyProjectState(restoreProject(bundle));
+        }
+      })
+      .catch((err) => console.warn("Could not read autosave:", err))
+      .finally(() => setAutosaveReady(true));
   });
-};
 
+  useEffect(() => startSession(), [startSession]);
+
+  // ✅ Autosave the session to IndexedDB shortly after every change. Audio
+  // is stored once; later saves only rewrite the graph, and none happen when
+  // the change (a selection, say) isn't part of the project.
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+      snapshotProject(projectState)
+        .then(saveSession)
+        .then(() => setLastAutosave(new Date()))
+        .catch((err) => console.warn("Autosave failed:", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, projectState]);
 
  return (
   <div className="w-screen h-screen bg-neutral-950 relative">
     <ReactFlow
-      nodes={nodes}
-      edges={edges}
+      nodes={displayNodes}
+      edges={displayEdges}
       onNodesChange={onNodesChange}
+      onNodeDragStart={() => checkpoint()}
+      onSelectionDragStart={() => checkpoint()}
       onEdgesChange={onEdgesChange}
+      onConnect={onConnect}
+      isValidConnection={isValidConnection}
+      deleteKeyCode={null}
       nodeTypes={nodeTypes}
       edgeTypes={edgeTypes}
       fitView
       style={{ width: "100%", height: "100%" }}
     >
       <Controls />
+      {showMinimap && (
+        <MiniMap
+          pannable
+          zoomable
+          nodeColor={minimapColor}
+          nodeStrokeColor={minimapColor}
+          maskColor="rgba(10, 10, 10, 0.7)"
+          className="!bg-neutral-900 border border-neutral-700 rounded-lg overflow-hidden"
+        />
+      )}
       <Background variant={BackgroundVariant.Dots} gap={14} size={1} />
     </ReactFlow>
 
+    {/* ✅ Project Toolbar */}
+    <div className="absolute top-6 left-6 bg-neutral-900/80 border border-neutral-700 shadow-lg
+              rounded-xl p-2 flex items-center gap-2 backdrop-blur-sm text-white">
+      <button
+        onClick={handleNewProject}
+        title="New project"
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition"
+      >
+        <LuFilePlus />
+      </button>
+      <label title="Open project" className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition cursor-pointer">
+        <LuFolderOpen />
+        <input
+          ref={projectInputRef}
+          type="file"
+          accept={PROJECT_FILE_EXTENSION}
+          onChange={handleOpenProject}
+          className="hidden"
+        />
+      </label>
+      <button
+        onClick={handleSaveProject}
+        disabled={isSavingProject}
+        title="Save project"
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition disabled:opacity-50"
+      >
+        {isSavingProject ? <LuLoader className="animate-spin" /> : <LuSave />}
+      </button>
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        title={`Undo (${formatShortcut("mod+z")})`}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition disabled:opacity-50"
+      >
+        <LuUndo2 />
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        title={`Redo (${formatShortcut("shift+mod+z")})`}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition disabled:opacity-50"
+      >
+        <LuRedo2 />
+      </button>
+      <button
+        onClick={() => setShowTimeline((shown) => !shown)}
+        title="Arrangement timeline"
+        className={`p-2 rounded transition ${showTimeline ? "bg-emerald-700 hover:bg-emerald-600" : "bg-neutral-800 hover:bg-neutral-700"}`}
+      >
+        <LuChartGantt />
+      </button>
+      <button
+        onClick={handleArrange}
+        title={`Arrange graph${autoLayout ? " (new nodes are placed automatically)" : ""}`}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition"
+      >
+        <LuNetwork />
+      </button>
+      <button
+        onClick={() => setShowMinimap((shown) => !shown)}
+        title="Minimap"
+        className={`p-2 rounded transition ${showMinimap ? "bg-emerald-700 hover:bg-emerald-600" : "bg-neutral-800 hover:bg-neutral-700"}`}
+      >
+        <LuMap />
+      </button>
+      <button
+        onClick={() => setShowPalette(true)}
+        title={`Command palette (${formatShortcut("mod+k")})`}
+        className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 transition"
+      >
+        <LuCommand />
+      </button>
+      <StemCache />
+      <ExportMenu
+        settings={exportSettings}
+        onChange={updateExportSettings}
+        outputCount={exportableNodes(nodes).length}
+        exporting={isExporting}
+        onExportAll={handleExportAll}
+      />
+      <MidiPanel targets={midiTargets} />
+      {lastAutosave && (
+        <span className="px-1 text-[10px] text-gray-400">
+          Autosaved {lastAutosave.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      )}
+    </div>
+
     {/* ✅ Upload Top Bar */}
-    <div className="absolute top-6 left-1/2 -translate-x-1/2 w-[700px] 
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 w-[920px] 
               bg-neutral-900/80 border border-neutral-700 shadow-lg 
               rounded-xl px-5 py-4 flex items-center gap-4 backdrop-blur-sm">
       <h1 className="text-base font-semibold text-white">
@@ -575,28 +3965,91 @@ const handleSync = () => {
                 hover:border-neutral-500 transition-colors duration-200">
         <LuUpload className="text-lg text-gray-400 mr-2" />
         <p className="text-gray-300 text-sm truncate">
-          {file ? file.name : "Upload a song"}
+          {hasSong ? "Add another song" : "Upload a song"}
         </p>
         <input
           type="file"
-          onChange={handleFileChange}
+          onChange={handleAddSong}
           accept="audio/*"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
       </div>
 
       <button
-        onClick={handleSeparate}
-        disabled={!file || isLoading || !gradioClient}
-        className="h-11 px-5 rounded-lg bg-emerald-600 text-white text-sm font-medium 
-             hover:bg-emerald-500 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        onClick={addRecordNode}
+        title="Record a take over the selected stems"
+        className="h-11 px-3 rounded-lg border border-neutral-700 bg-neutral-800 hover:bg-neutral-700 transition
+                   text-sm text-white flex items-center gap-2"
       >
-        {isLoading ? <LuLoader className="animate-spin text-lg" /> : "Separate"}
+        <LuMic /> Record
       </button>
+
+      <select
+        value={backendId}
+        onChange={(e) => handleBackendChange(e.target.value)}
+        title="Backend used for the next separation"
+        className="h-11 max-w-[150px] bg-neutral-800 border border-neutral-700 rounded-lg px-2 text-sm text-white"
+      >
+        {SEPARATION_BACKENDS.map((backend) => (
+          <option key={backend.id} value={backend.id}>
+            {backend.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={stemSetId}
+        onChange={(e) => setStemSetId(e.target.value)}
+        title="Stems produced by the next separation"
+        className="h-11 bg-neutral-800 border border-neutral-700 rounded-lg px-2 text-sm text-white"
+      >
+        {getSeparationBackend(backendId).stemSets.map((set) => (
+          <option key={set.id} value={set.id}>
+            {set.label}
+          </option>
+        ))}
+      </select>
+
+      <InputChecks
+        settings={preflightSettings}
+        capabilities={getSeparationBackend(backendId).capabilities}
+        onChange={updatePreflightSettings}
+      />
+
     </div>
 
 
 
+    {/* ✅ Separation Jobs */}
+    <JobsPanel onRetry={retrySeparation} />
+
+    {/* ✅ Arrangement Timeline */}
+    {showTimeline && (
+      <Timeline lanes={timelineLanes} onOffsetChange={updateClipOffset} onClose={() => setShowTimeline(false)} />
+    )}
+
+    {/* ✅ Song → Cover Recipe */}
+    {coverEditorFor && (
+      <CoverRecipeEditor
+        songName={
+          (nodes.find((n) => n.id === coverEditorFor)?.data as SourceNodeData | undefined)?.file?.name ?? "this song"
+        }
+        initialRecipe={loadCoverRecipe()}
+        stems={getStemSet(getSeparationBackend(backendId), stemSetId).stems}
+        transforms={TRANSFORM_OPTIONS}
+        onRun={(recipe) => startCover(coverEditorFor, recipe)}
+        onClose={() => setCoverEditorFor(null)}
+      />
+    )}
+
+    {/* ✅ Command Palette */}
+    {showPalette && (
+      <CommandPalette commands={commands.filter((c) => c.id !== "palette")} onClose={() => setShowPalette(false)} />
+    )}
+
+    {/* ✅ Global Transport */}
+    <TransportBar onPlayAll={playAllSelectedStems} />
+
 {/* ✅ IMPROVED RIGHT-SIDE SYNC PANEL */}
 <div className="absolute right-[600px] top-1/2 transform -translate-y-1/2
                 bg-neutral-900 border border-neutral-700 shadow-md rounded-md p-4
@@ -609,40 +4062,40 @@ const handleSync = () => {
   </div>
 
   {/* Stem Selection Buttons */}
- {/* Stem Selection Buttons */}
-<div className="space-y-2 mb-4">
- {["Drums", "Bass", "Other", "Vocals"].map((stem) => {
-   const isSelected = selectedStems.includes(stem);
-   const stemColor = EDGE_COLORS[stem];
-   const getIcon = () => {
-     switch(stem) {
-       case "Drums": return <LuDrum className="w-4 h-4" style={{ color: stemColor }} />;
-       case "Bass": return <LuMusic className="w-4 h-4" style={{ color: stemColor }} />;
-       case "Other": return <LuGuitar className="w-4 h-4" style={{ color: stemColor }} />;
-       case "Vocals": return <LuMic className="w-4 h-4" style={{ color: stemColor }} />;
-       default: return null;
-     }
-   };
-   
-   return (
-     <button
-       key={stem}
-       onClick={() => toggleStem(stem)}
-       className={`w-full px-3 py-2 rounded text-sm font-medium transition
-                  flex items-center gap-2
-                  ${isSelected 
-                    ? 'bg-neutral-800 text-white border' 
-                    : 'bg-neutral-800/50 text-gray-400 border border-transparent hover:bg-neutral-800'
-                  }`}
-       style={{
-         borderColor: isSelected ? stemColor : 'transparent'
-       }}
-     >
-       {getIcon()}
-       {stem}
-     </button>
-   );
- })}
+<div className="space-y-3 mb-4">
+ {stemGroups.length === 0 && (
+   <p className="text-center text-xs text-gray-500">Separate a song to list its stems</p>
+ )}
+ {stemGroups.map(({ source, stems }) => (
+   <div key={source.id} className="space-y-2">
+     <div className="text-[11px] uppercase tracking-wide text-gray-500 truncate">
+       {(source.data as SourceNodeData).file?.name ?? source.data.label}
+     </div>
+     {stems.map((stem) => {
+       const isSelected = selectedStems.includes(stem.id);
+       const stemColor = (stem.data as StemNodeData).color;
+
+       return (
+         <button
+           key={stem.id}
+           onClick={() => toggleStem(stem.id)}
+           className={`w-full px-3 py-2 rounded text-sm font-medium transition
+                      flex items-center gap-2
+                      ${isSelected
+                        ? 'bg-neutral-800 text-white border'
+                        : 'bg-neutral-800/50 text-gray-400 border border-transparent hover:bg-neutral-800'
+                      }`}
+           style={{
+             borderColor: isSelected ? stemColor : 'transparent'
+           }}
+         >
+           <StemIcon label={stem.data.label} className="w-4 h-4" color={stemColor} />
+           {stem.data.label}
+         </button>
+       );
+     })}
+   </div>
+ ))}
 </div>
 
   {/* Control Buttons */}
@@ -650,7 +4103,7 @@ const handleSync = () => {
     {/* Sync Button */}
     <button
       onClick={handleSync}
-      disabled={selectedStems.length === 0}
+      disabled={selectedCount === 0}
       className="w-full px-3 py-2 rounded text-sm font-medium
                  bg-neutral-800 text-white hover:bg-neutral-700 
                  disabled:bg-neutral-800/50 disabled:text-gray-500 disabled:cursor-not-allowed
@@ -662,7 +4115,7 @@ const handleSync = () => {
     {/* Play All Button */}
     <button
       onClick={playAllSelectedStems}
-      disabled={selectedStems.length === 0}
+      disabled={selectedCount === 0}
       className="w-full px-3 py-2 rounded text-sm font-medium
                  bg-neutral-800 text-white hover:bg-neutral-700 
                  disabled:bg-neutral-800/50 disabled:text-gray-500 disabled:cursor-not-allowed
@@ -672,6 +4125,19 @@ const handleSync = () => {
       Play All
     </button>
 
+    {/* Export Mix Button */}
+    <button
+      onClick={handleMixdown}
+      disabled={selectedCount === 0 || isMixing}
+      className="w-full px-3 py-2 rounded text-sm font-medium
+                 bg-emerald-600 text-white hover:bg-emerald-500
+                 disabled:bg-neutral-800/50 disabled:text-gray-500 disabled:cursor-not-allowed
+                 transition flex items-center justify-center gap-2"
+    >
+      {isMixing ? <LuLoader className="w-4 h-4 animate-spin" /> : <LuDownload className="w-4 h-4" />}
+      Export Mix
+    </button>
+
     {/* Stop All Button */}
     <button
       onClick={stopAllStems}
@@ -687,7 +4153,7 @@ const handleSync = () => {
   {/* Status Indicator */}
   <div className="mt-3 pt-3 border-t border-neutral-700">
     <div className="text-center text-xs text-gray-400">
-      {selectedStems.length}/{["Drums", "Bass", "Other", "Vocals"].length} selected
+      {selectedCount}/{stemCount} selected
     </div>
   </div>
 </div>
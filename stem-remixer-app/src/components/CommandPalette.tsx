@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { LuSearch } from "react-icons/lu";
+import { Command, formatShortcut, searchCommands } from "@/lib/commands";
+
+const MAX_RESULTS = 50;
+
+// =================== COMMAND PALETTE ===================
+
+const CommandPalette: React.FC<{ commands: Command[]; onClose: () => void }> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const results = searchCommands(commands, query).slice(0, MAX_RESULTS);
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command || command.disabled) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => Math.min(results.length - 1, i + 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => Math.max(0, i - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      runCommand(results[active]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-32 bg-black/40" onMouseDown={onClose}>
+      <div
+        className="w-[520px] bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl text-white overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-neutral-800">
+          <LuSearch className="text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command, e.g. “add reverb to vocals”"
+            className="flex-1 bg-transparent py-3 text-sm outline-none placeholder:text-gray-500"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-center text-xs text-gray-500">No matching commands</p>
+        ) : (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+            {results.map((command, i) => (
+              <li
+                key={command.id}
+                onMouseEnter={() => setActive(i)}
+                onClick={() => runCommand(command)}
+                className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer
+                            ${i === active ? "bg-neutral-800" : ""} ${command.disabled ? "opacity-40" : ""}`}
+              >
+                <span className="w-20 shrink-0 text-[10px] uppercase tracking-wide text-gray-500">{command.group}</span>
+                <span className="flex-1 truncate">{command.title}</span>
+                {command.shortcuts?.[0] && (
+                  <kbd className="px-1.5 py-0.5 rounded bg-neutral-800 border border-neutral-700 text-[10px] text-gray-300">
+                    {formatShortcut(command.shortcuts[0])}
+                  </kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
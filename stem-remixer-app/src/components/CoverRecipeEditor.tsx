@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from "react";
+import { LuPlus, LuX } from "react-icons/lu";
+import { COVER_PRESETS, CoverRecipe, CoverStemRecipe, stemRecipe } from "@/lib/cover";
+import { RAVE_MODELS } from "@/lib/styleTransfer";
+
+interface CoverRecipeEditorProps {
+  songName: string;
+  initialRecipe: CoverRecipe;
+  stems: string[]; // stems the next separation produces
+  transforms: { value: string; label: string }[];
+  onRun: (recipe: CoverRecipe) => void;
+  onClose: () => void;
+}
+
+// =================== COVER RECIPE EDITOR ===================
+
+const CoverRecipeEditor: React.FC<CoverRecipeEditorProps> = ({
+  songName,
+  initialRecipe,
+  stems,
+  transforms,
+  onRun,
+  onClose,
+}) => {
+  const [recipe, setRecipe] = useState(initialRecipe);
+  const [addChoice, setAddChoice] = useState<Record<string, string>>({});
+
+  const updateStem = (label: string, patch: Partial<CoverStemRecipe>) =>
+    setRecipe((prev) => ({
+      name: "Custom",
+      stems: { ...prev.stems, [label]: { ...stemRecipe(prev, label), ...patch } },
+    }));
+
+  const addStep = (label: string) => {
+    const transform = addChoice[label] || transforms[0].value;
+    const steps = stemRecipe(recipe, label).steps;
+    updateStem(label, {
+      steps: [...steps, transform === "styleTransfer" ? { transform, model: RAVE_MODELS[0].value } : { transform }],
+    });
+  };
+
+  const transformLabel = (value: string) => transforms.find((t) => t.value === value)?.label ?? value;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-24 bg-black/40" onMouseDown={onClose}>
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-[560px] bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl text-white"
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-800">
+          <h3 className="flex-1 text-sm font-medium truncate">Make a cover of {songName}</h3>
+          <button onClick={onClose} title="Close" className="p-1 rounded hover:bg-neutral-800">
+            <LuX />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs text-gray-300">
+          <label className="flex items-center gap-2">
+            Recipe
+            <select
+              value={COVER_PRESETS.some((preset) => preset.name === recipe.name) ? recipe.name : ""}
+              onChange={(e) => setRecipe(COVER_PRESETS.find((preset) => preset.name === e.target.value) ?? recipe)}
+              className="flex-1 bg-neutral-800 border border-neutral-700 rounded p-1 text-white"
+            >
+              <option value="">{recipe.name}</option>
+              {COVER_PRESETS.filter((preset) => preset.name !== recipe.name).map((preset) => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <ul className="space-y-2">
+            {stems.map((label) => {
+              const stem = stemRecipe(recipe, label);
+              return (
+                <li key={label} className="rounded bg-neutral-800 p-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-white">{label}</span>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={stem.keep}
+                        onChange={(e) => updateStem(label, { keep: e.target.checked })}
+                      />
+                      In the cover
+                    </label>
+                  </div>
+
+                  {stem.keep && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      {stem.steps.length === 0 && <span className="text-gray-500">Unchanged</span>}
+                      {stem.steps.map((step, i) => (
+                        <span key={i} className="flex items-center gap-1 rounded bg-neutral-700 pl-2 pr-1 py-0.5">
+                          {i > 0 && <span className="text-gray-500">→</span>}
+                          {transformLabel(step.transform)}
+                          {step.transform === "styleTransfer" && (
+                            <select
+                              value={step.model}
+                              onChange={(e) =>
+                                updateStem(label, {
+                                  steps: stem.steps.map((s, j) => (j === i ? { ...s, model: e.target.value } : s)),
+                                })
+                              }
+                              className="bg-neutral-800 rounded text-[11px] text-white"
+                            >
+                              {RAVE_MODELS.map((model) => (
+                                <option key={model.value} value={model.value}>
+                                  {model.label}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            onClick={() => updateStem(label, { steps: stem.steps.filter((_, j) => j !== i) })}
+                            title="Remove step"
+                            className="p-0.5 rounded hover:bg-neutral-600"
+                          >
+                            <LuX />
+                          </button>
+                        </span>
+                      ))}
+                      <span className="ml-auto flex items-center gap-1">
+                        <select
+                          value={addChoice[label] ?? transforms[0].value}
+                          onChange={(e) => setAddChoice((prev) => ({ ...prev, [label]: e.target.value }))}
+                          className="bg-neutral-900 border border-neutral-700 rounded p-0.5 text-white"
+                        >
+                          {transforms.map((transform) => (
+                            <option key={transform.value} value={transform.value}>
+                              {transform.label}
+                            </option>
+                          ))}
+                        </select>
+                        <button onClick={() => addStep(label)} title="Add step" className="p-1 rounded hover:bg-neutral-700">
+                          <LuPlus />
+                        </button>
+                      </span>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-[11px] text-gray-500">
+            Every step becomes an ordinary node on the canvas, so it can be tweaked after the cover is mixed.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-neutral-800">
+          <button onClick={onClose} className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-sm transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => onRun(recipe)}
+            disabled={!stems.some((label) => stemRecipe(recipe, label).keep)}
+            className="px-3 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-sm transition
+                       disabled:bg-neutral-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Make cover
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoverRecipeEditor;
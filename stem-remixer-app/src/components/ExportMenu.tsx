@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { LuFileDown, LuLoader } from "react-icons/lu";
+import { EXPORT_FORMATS, ExportFormat, ExportSettings, LOUDNESS_TARGETS } from "@/lib/audio/export";
+import { isOpusSupported } from "@/lib/audio/opus";
+
+// =================== EXPORT MENU ===================
+
+interface ExportMenuProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  outputCount: number; // stems and transform outputs with audio
+  exporting: boolean;
+  onExportAll: () => void;
+}
+
+// Format and loudness used by every node's export button, plus the zip export.
+const ExportMenu: React.FC<ExportMenuProps> = ({ settings, onChange, outputCount, exporting, onExportAll }) => {
+  const [open, setOpen] = useState(false);
+  const [opusSupported, setOpusSupported] = useState(true);
+
+  useEffect(() => {
+    isOpusSupported().then(setOpusSupported);
+  }, []);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((shown) => !shown)}
+        title="Export"
+        className={`p-2 rounded transition ${open ? "bg-neutral-700" : "bg-neutral-800 hover:bg-neutral-700"}`}
+      >
+        {exporting ? <LuLoader className="animate-spin" /> : <LuFileDown />}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-3 z-20 w-72 p-3 space-y-3 rounded-lg bg-neutral-900 border
+                        border-neutral-700 shadow-lg text-xs text-gray-300">
+          <h4 className="text-sm font-medium text-white">Export</h4>
+          <label className="flex items-center justify-between gap-2">
+            Format
+            <select
+              value={settings.format}
+              onChange={(e) => onChange({ ...settings, format: e.target.value as ExportFormat })}
+              className="bg-neutral-800 border border-neutral-700 rounded p-1 text-white"
+            >
+              {EXPORT_FORMATS.map((format) => (
+                <option key={format.id} value={format.id} disabled={format.id === "opus" && !opusSupported}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.normalize}
+                onChange={(e) => onChange({ ...settings, normalize: e.target.checked })}
+              />
+              Normalize loudness to
+            </span>
+            <select
+              value={settings.targetLufs}
+              onChange={(e) => onChange({ ...settings, targetLufs: Number(e.target.value) })}
+              disabled={!settings.normalize}
+              className="bg-neutral-800 border border-neutral-700 rounded p-1 text-white disabled:opacity-50"
+            >
+              {[...new Set([...LOUDNESS_TARGETS, settings.targetLufs])].sort((a, b) => a - b).map((target) => (
+                <option key={target} value={target}>
+                  {target} LUFS
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-[11px] text-gray-500">
+            Gain only: the peak stays under -1 dBFS, so loud transients can leave a file below the target.
+          </p>
+
+          <button
+            onClick={onExportAll}
+            disabled={outputCount === 0 || exporting}
+            className="w-full px-3 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 transition text-white
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? "Exporting…" : `Export all ${outputCount} as zip`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from "react";
+import { LuShieldCheck } from "react-icons/lu";
+import { PreflightSettings, SeparationCapabilities } from "@/lib/separation";
+
+// =================== INPUT CHECKS ===================
+
+interface InputChecksProps {
+  settings: PreflightSettings;
+  capabilities: SeparationCapabilities;
+  onChange: (settings: PreflightSettings) => void;
+}
+
+// Limits and conversion applied to songs before they are sent for separation.
+const InputChecks: React.FC<InputChecksProps> = ({ settings, capabilities, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const format = capabilities.inputFormat;
+
+  const setNumber = (key: "maxFileSizeMb" | "maxDurationMinutes", value: string) => {
+    const number = Number(value);
+    if (Number.isFinite(number) && number > 0) onChange({ ...settings, [key]: number });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((shown) => !shown)}
+        title="Input checks"
+        className={`h-11 px-3 rounded-lg border border-neutral-700 text-white transition
+                    ${open ? "bg-neutral-700" : "bg-neutral-800 hover:bg-neutral-700"}`}
+      >
+        <LuShieldCheck />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-64 p-3 space-y-3 rounded-lg bg-neutral-900 border
+                        border-neutral-700 shadow-lg text-xs text-gray-300">
+          <h4 className="text-sm font-medium text-white">Input checks</h4>
+          <label className="flex items-center justify-between gap-2">
+            Max file size (MB)
+            <input
+              type="number"
+              min={1}
+              value={settings.maxFileSizeMb}
+              onChange={(e) => setNumber("maxFileSizeMb", e.target.value)}
+              className="w-20 bg-neutral-800 border border-neutral-700 rounded p-1 text-right"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Max length (minutes)
+            <input
+              type="number"
+              min={1}
+              value={settings.maxDurationMinutes}
+              onChange={(e) => setNumber("maxDurationMinutes", e.target.value)}
+              className="w-20 bg-neutral-800 border border-neutral-700 rounded p-1 text-right"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.convert}
+              onChange={(e) => onChange({ ...settings, convert: e.target.checked })}
+              disabled={!format}
+            />
+            {format
+              ? `Convert to ${(format.sampleRate / 1000).toFixed(1)} kHz ${format.channels === 1 ? "mono" : "stereo"}`
+              : "This backend takes any format"}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.normalize}
+              onChange={(e) => onChange({ ...settings, normalize: e.target.checked })}
+            />
+            Normalize peak level before upload
+          </label>
+          {(capabilities.maxFileSizeBytes || capabilities.maxDurationSeconds) && (
+            <p className="text-[11px] text-gray-500">The selected backend&apos;s own limits also apply.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputChecks;
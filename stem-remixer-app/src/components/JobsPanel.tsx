@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { LuLoader, LuRotateCcw, LuX } from "react-icons/lu";
+import {
+  getJobManager,
+  isJobActive,
+  SeparationJob,
+  SeparationProgress,
+  useSeparationJobs,
+} from "@/lib/separation";
+
+export const formatSeparationProgress = (progress: SeparationProgress | null) => {
+  if (!progress) return "";
+  if (progress.stage === "queued") {
+    return progress.queuePosition != null ? `Queued #${progress.queuePosition + 1}` : "Queued";
+  }
+  if (progress.stage === "uploading") return "Uploading";
+  return progress.progress != null ? `${Math.round(progress.progress * 100)}%` : "Working";
+};
+
+export const formatJobStatus = (job: SeparationJob) => {
+  switch (job.status) {
+    case "pending":
+      return job.localQueuePosition ? `Waiting (${job.localQueuePosition} ahead)` : "Starting";
+    case "running":
+      return formatSeparationProgress(job.progress) || "Starting";
+    case "retrying": {
+      const seconds = Math.max(0, Math.ceil(((job.nextRetryAt ?? 0) - Date.now()) / 1000));
+      return `Retry ${job.attempt + 1}/${job.maxAttempts} in ${seconds}s`;
+    }
+    case "succeeded":
+      return "Done";
+    case "failed":
+      return "Failed";
+    case "cancelled":
+      return "Cancelled";
+  }
+};
+
+// =================== JOBS PANEL ===================
+
+const JobsPanel: React.FC<{ onRetry: (id: string) => void }> = ({ onRetry }) => {
+  const jobs = useSeparationJobs();
+  const [, setTick] = useState(0);
+  const hasRetrying = jobs.some((job) => job.status === "retrying");
+
+  // Keep retry countdowns ticking between job updates.
+  useEffect(() => {
+    if (!hasRetrying) return;
+    const timer = setInterval(() => setTick((tick) => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetrying]);
+
+  if (jobs.length === 0) return null;
+
+  const manager = getJobManager();
+
+  return (
+    <div className="absolute bottom-6 left-6 w-72 bg-neutral-900/90 border border-neutral-700 shadow-lg
+              rounded-xl p-3 backdrop-blur-sm text-white space-y-2">
+      <h3 className="text-sm font-medium">Separation Jobs</h3>
+      {jobs.map((job) => (
+        <div key={job.id} className="bg-neutral-800 rounded p-2 text-xs">
+          <div className="flex items-center gap-2">
+            {isJobActive(job) && <LuLoader className="animate-spin shrink-0" />}
+            <span className="flex-1 truncate" title={job.label}>
+              {job.label}
+            </span>
+            {(job.status === "failed" || job.status === "cancelled") && (
+              <button onClick={() => onRetry(job.id)} title="Retry" className="p-1 rounded hover:bg-neutral-700">
+                <LuRotateCcw />
+              </button>
+            )}
+            <button
+              onClick={() => (isJobActive(job) ? manager.cancel(job.id) : manager.dismiss(job.id))}
+              title={isJobActive(job) ? "Cancel" : "Dismiss"}
+              className="p-1 rounded hover:bg-neutral-700"
+            >
+              <LuX />
+            </button>
+          </div>
+          <div className="mt-1 flex justify-between text-gray-400">
+            <span>{job.backendName}</span>
+            <span className={job.status === "failed" ? "text-red-400" : ""}>{formatJobStatus(job)}</span>
+          </div>
+          {job.status === "running" && job.progress?.progress != null && (
+            <div className="mt-1 h-1 rounded bg-neutral-700 overflow-hidden">
+              <div className="h-full bg-emerald-500 transition-all" style={{ width: `${job.progress.progress * 100}%` }} />
+            </div>
+          )}
+          {job.error && job.status !== "succeeded" && (
+            <p className="mt-1 text-red-300 truncate" title={job.error}>
+              {job.error}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default JobsPanel;
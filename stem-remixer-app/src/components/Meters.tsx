@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { getAudioContext } from "@/lib/audio/context";
+import {
+  createLoudnessMeter,
+  meterFraction,
+  METER_FLOOR_DB,
+  onAnimationFrame,
+  readLevels,
+  toDb,
+} from "@/lib/audio/metering";
+import { getTransport } from "@/lib/audio/transport";
+import { useLevelFollower } from "@/lib/audio/useMeter";
+import { useTransportSnapshot } from "@/lib/audio/useTransport";
+
+// Peak hold falls back at this rate once the signal drops.
+const PEAK_DECAY_DB_PER_SECOND = 20;
+
+const formatDb = (db: number) => (db <= METER_FLOOR_DB ? "-∞" : db.toFixed(1));
+
+// =================== LEVEL METER ===================
+
+// Horizontal post-fader meter: RMS as the bar, peak as a held tick.
+export const LevelMeter: React.FC<{ id: string; color: string }> = ({ id, color }) => {
+  const rmsRef = useRef<HTMLDivElement | null>(null);
+  const peakRef = useRef<HTMLDivElement | null>(null);
+  const labelRef = useRef<HTMLSpanElement | null>(null);
+  const held = useRef({ db: -Infinity, time: 0 });
+
+  useLevelFollower([id], (levels) => {
+    const now = performance.now();
+    const peakDb = levels ? toDb(levels.peak) : -Infinity;
+    const rmsDb = levels ? toDb(levels.rms) : -Infinity;
+    const decayed = held.current.db - ((now - held.current.time) / 1000) * PEAK_DECAY_DB_PER_SECOND;
+    if (peakDb >= decayed) held.current = { db: peakDb, time: now };
+    const shownPeak = Math.max(peakDb, decayed);
+
+    if (rmsRef.current) rmsRef.current.style.width = `${meterFraction(rmsDb) * 100}%`;
+    if (peakRef.current) {
+      peakRef.current.style.left = `${meterFraction(shownPeak) * 100}%`;
+      peakRef.current.style.background = shownPeak > -0.1 ? "#ef4444" : "#f5f5f5";
+    }
+    if (labelRef.current) labelRef.current.textContent = `${formatDb(shownPeak)} / ${formatDb(rmsDb)}`;
+  });
+
+  return (
+    <div className="flex items-center gap-2" title="Peak / RMS (dBFS)">
+      <div className="relative flex-1 h-1.5 rounded bg-neutral-800 overflow-hidden">
+        <div ref={rmsRef} className="absolute inset-y-0 left-0 w-0" style={{ background: color }} />
+        <div ref={peakRef} className="absolute inset-y-0 w-0.5 -ml-px" style={{ left: 0 }} />
+      </div>
+      <span ref={labelRef} className="w-20 text-right text-[9px] tabular-nums text-gray-400">
+        -∞ / -∞
+      </span>
+    </div>
+  );
+};
+
+// Peak bar for an analyser outside the transport, such as the microphone while recording.
+export const InputMeter: React.FC<{ analyser: AnalyserNode | null; color: string }> = ({ analyser, color }) => {
+  const barRef = useRef<HTMLDivElement | null>(null);
+  const labelRef = useRef<HTMLSpanElement | null>(null);
+
+  useEffect(() => {
+    const show = (peakDb: number) => {
+      if (barRef.current) {
+        barRef.current.style.width = `${meterFraction(peakDb) * 100}%`;
+        barRef.current.style.background = peakDb > -0.1 ? "#ef4444" : color;
+      }
+      if (labelRef.current) labelRef.current.textContent = formatDb(peakDb);
+    };
+    show(-Infinity);
+    if (!analyser) return;
+    return onAnimationFrame(() => show(toDb(readLevels(analyser).peak)));
+  }, [analyser, color]);
+
+  return (
+    <div className="flex items-center gap-2" title="Input peak (dBFS)">
+      <div className="relative flex-1 h-1.5 rounded bg-neutral-800 overflow-hidden">
+        <div ref={barRef} className="absolute inset-y-0 left-0 w-0" />
+      </div>
+      <span ref={labelRef} className="w-8 text-right text-[9px] tabular-nums text-gray-400">
+        -∞
+      </span>
+    </div>
+  );
+};
+
+// =================== SPECTRUM ===================
+
+export type ScopeMode = "spectrum" | "spectrogram";
+
+const SCOPE_WIDTH = 256;
+const SCOPE_HEIGHT = 48;
+
+// Log-frequency x position (20 Hz .. Nyquist) for an FFT bin.
+const binX = (bin: number, binCount: number, sampleRate: number) => {
+  const frequency = Math.max(20, (bin * sampleRate) / 2 / binCount);
+  return (Math.log(frequency / 20) / Math.log(sampleRate / 2 / 20)) * SCOPE_WIDTH;
+};
+
+export const SpectrumView: React.FC<{ id: string; color: string; mode: ScopeMode }> = ({ id, color, mode }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { state, activeIds } = useTransportSnapshot();
+  const playing = state === "playing" && activeIds.includes(id);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, SCOPE_WIDTH, SCOPE_HEIGHT);
+    const analyser = getTransport().getAnalyser(id);
+    if (!playing || !analyser) return;
+
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const sampleRate = analyser.context.sampleRate;
+
+    return onAnimationFrame(() => {
+      analyser.getByteFrequencyData(bins);
+      if (mode === "spectrum") {
+        ctx.clearRect(0, 0, SCOPE_WIDTH, SCOPE_HEIGHT);
+        ctx.fillStyle = color;
+        for (let bin = 1; bin < bins.length; bin++) {
+          const x = binX(bin, bins.length, sampleRate);
+          const width = Math.max(1, binX(bin + 1, bins.length, sampleRate) - x);
+          const height = (bins[bin] / 255) * SCOPE_HEIGHT;
+          ctx.fillRect(x, SCOPE_HEIGHT - height, width, height);
+        }
+        return;
+      }
+
+      // Spectrogram: scroll one pixel left and paint the newest column, low frequencies at the bottom.
+      ctx.drawImage(canvas, -1, 0);
+      for (let y = 0; y < SCOPE_HEIGHT; y++) {
+        const fraction = 1 - y / SCOPE_HEIGHT;
+        const frequency = 20 * Math.pow(sampleRate / 2 / 20, fraction);
+        const value = bins[Math.min(bins.length - 1, Math.round((frequency / (sampleRate / 2)) * bins.length))] / 255;
+        ctx.fillStyle = `hsl(${Math.round(240 - value * 240)} 90% ${Math.round(value * 55)}%)`;
+        ctx.fillRect(SCOPE_WIDTH - 1, y, 1, 1);
+      }
+    });
+  }, [id, color, mode, playing]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={SCOPE_WIDTH}
+      height={SCOPE_HEIGHT}
+      className="w-full h-12 rounded bg-neutral-950"
+    />
+  );
+};
+
+// =================== LOUDNESS ===================
+
+const formatLufs = (value: number) => (Number.isFinite(value) && value > -70 ? value.toFixed(1) : "--");
+
+// Master loudness (momentary / short-term / integrated). The integrated
+// reading restarts whenever playback is stopped.
+export const LoudnessMeter: React.FC = () => {
+  const { state } = useTransportSnapshot();
+  const [meter, setMeter] = useState<ReturnType<typeof createLoudnessMeter> | null>(null);
+  const momentaryRef = useRef<HTMLSpanElement | null>(null);
+  const shortTermRef = useRef<HTMLSpanElement | null>(null);
+  const integratedRef = useRef<HTMLSpanElement | null>(null);
+  const barRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const loudness = createLoudnessMeter(getAudioContext(), getTransport().masterOutput);
+    setMeter(loudness);
+    return () => loudness.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!meter) return;
+    if (state === "stopped") meter.reset();
+    if (state !== "playing") return;
+
+    return onAnimationFrame(() => {
+      const { momentary, shortTerm, integrated } = meter.read();
+      if (momentaryRef.current) momentaryRef.current.textContent = formatLufs(momentary);
+      if (shortTermRef.current) shortTermRef.current.textContent = formatLufs(shortTerm);
+      if (integratedRef.current) integratedRef.current.textContent = formatLufs(integrated);
+      if (barRef.current) barRef.current.style.width = `${meterFraction(momentary) * 100}%`;
+    });
+  }, [meter, state]);
+
+  return (
+    <div className="flex flex-col gap-1 w-36" title="Master loudness (LUFS): momentary / short-term / integrated">
+      <div className="relative h-1.5 rounded bg-neutral-800 overflow-hidden">
+        <div ref={barRef} className="absolute inset-y-0 left-0 w-0 bg-sky-400" />
+      </div>
+      <div className="flex justify-between text-[10px] tabular-nums text-gray-400">
+        <span>
+          M <span ref={momentaryRef}>--</span>
+        </span>
+        <span>
+          S <span ref={shortTermRef}>--</span>
+        </span>
+        <span className="text-gray-200">
+          I <span ref={integratedRef}>--</span>
+        </span>
+      </div>
+    </div>
+  );
+};
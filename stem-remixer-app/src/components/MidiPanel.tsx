@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useState } from "react";
+import { LuSlidersVertical, LuX } from "react-icons/lu";
+import { describeControl, getMidiController, MidiTarget, midiTargetKey, useMidi } from "@/lib/midi";
+
+// =================== MIDI PANEL ===================
+
+export interface MidiTargetOption {
+  target: MidiTarget;
+  label: string;
+  group: string; // e.g. the stem or effect node the target belongs to
+}
+
+const STATUS_TEXT = {
+  off: "Not connected",
+  connecting: "Connecting…",
+  ready: "Connected",
+  unsupported: "This browser has no Web MIDI support.",
+  denied: "MIDI access was refused. Allow it in the site settings and try again.",
+};
+
+// MIDI learn: pick a target, then move a knob, fader or pad to bind it.
+const MidiPanel: React.FC<{ targets: MidiTargetOption[] }> = ({ targets }) => {
+  const [open, setOpen] = useState(false);
+  const { status, inputs, mappings, learning } = useMidi();
+  const midi = getMidiController();
+  const learningKey = learning ? midiTargetKey(learning) : null;
+  const groups = [...new Set(targets.map((option) => option.group))];
+
+  const handleClear = () => {
+    if (confirm(`Remove all ${mappings.length} MIDI mappings?`)) midi.setMappings([]);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((shown) => !shown)}
+        title="MIDI mapping"
+        className={`p-2 rounded transition ${
+          learning ? "bg-amber-600 hover:bg-amber-500" : open ? "bg-neutral-700" : "bg-neutral-800 hover:bg-neutral-700"
+        }`}
+      >
+        <LuSlidersVertical />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-3 z-20 w-80 p-3 space-y-3 rounded-lg bg-neutral-900 border
+                        border-neutral-700 shadow-lg text-xs text-gray-300">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-white">MIDI</h4>
+            {status === "ready" ? (
+              <button onClick={midi.disable} className="text-gray-400 hover:text-white">
+                Disconnect
+              </button>
+            ) : (
+              <button
+                onClick={() => midi.enable()}
+                disabled={status === "connecting" || status === "unsupported"}
+                className="px-2 py-1 rounded bg-emerald-600 hover:bg-emerald-500 transition text-white
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Connect
+              </button>
+            )}
+          </div>
+          <p className={status === "denied" || status === "unsupported" ? "text-red-300" : "text-gray-400"}>
+            {status === "ready" && inputs.length > 0 ? inputs.join(", ") : STATUS_TEXT[status]}
+          </p>
+
+          {learning && (
+            <div className="flex items-center justify-between gap-2 rounded bg-amber-900/60 border border-amber-700 p-2">
+              <span>Move a control to map it…</span>
+              <button onClick={() => midi.learn(null)} className="text-amber-200 hover:text-white">
+                Cancel
+              </button>
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto space-y-3">
+            {groups.map((group) => (
+              <div key={group} className="space-y-1">
+                <div className="text-[11px] uppercase tracking-wide text-gray-500 truncate">{group}</div>
+                {targets
+                  .filter((option) => option.group === group)
+                  .map((option) => {
+                    const key = midiTargetKey(option.target);
+                    const mapping = mappings.find((m) => midiTargetKey(m.target) === key);
+                    const isLearning = learningKey === key;
+                    return (
+                      <div key={key} className="flex items-center gap-2 bg-neutral-800 rounded px-2 py-1">
+                        <span className="flex-1 truncate text-white">{option.label}</span>
+                        {mapping && (
+                          <span className="text-[10px] tabular-nums text-gray-400" title={mapping.control.input}>
+                            {describeControl(mapping.control)}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => midi.learn(isLearning ? null : option.target)}
+                          disabled={status !== "ready"}
+                          className={`px-1.5 rounded transition disabled:opacity-40 ${
+                            isLearning ? "bg-amber-600 text-white" : "bg-neutral-700 hover:bg-neutral-600"
+                          }`}
+                        >
+                          Learn
+                        </button>
+                        {mapping && (
+                          <button
+                            onClick={() => midi.removeMapping(mapping.id)}
+                            title="Remove mapping"
+                            className="p-0.5 rounded hover:bg-neutral-700"
+                          >
+                            <LuX />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleClear}
+            disabled={mappings.length === 0}
+            className="w-full px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 transition text-white
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear mappings
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiPanel;
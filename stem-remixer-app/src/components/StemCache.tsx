@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useState } from "react";
+import { LuDatabase, LuX } from "react-icons/lu";
+import { getStemCache, useStemCache } from "@/lib/separation";
+
+const MB = 1024 * 1024;
+const LIMIT_OPTIONS = [100, 250, 500, 1000, 2000].map((mb) => mb * MB);
+
+const formatSize = (bytes: number) =>
+  bytes >= 1000 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB` : `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+
+// =================== STEM CACHE ===================
+
+// Separations kept in the browser so a song can be split again without re-uploading it.
+const StemCache: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { entries, totalBytes, limitBytes } = useStemCache();
+
+  // Cache writes run after the click returns, so their failures are reported here.
+  const report = (action: () => Promise<void>) =>
+    action().catch((err) => {
+      console.error("Stem cache update failed:", err);
+      alert("❌ Could not update the stem cache.");
+    });
+
+  const handleClear = () => {
+    if (confirm(`Remove all ${entries.length} cached separations?`)) report(() => getStemCache().clear());
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((shown) => !shown)}
+        title="Stem cache"
+        className={`p-2 rounded transition ${open ? "bg-neutral-700" : "bg-neutral-800 hover:bg-neutral-700"}`}
+      >
+        <LuDatabase />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-3 z-20 w-80 p-3 space-y-3 rounded-lg bg-neutral-900 border
+                        border-neutral-700 shadow-lg text-xs text-gray-300">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-white">Stem cache</h4>
+            <span className="tabular-nums text-gray-400">
+              {formatSize(totalBytes)} / {formatSize(limitBytes)}
+            </span>
+          </div>
+          <div className="h-1.5 rounded bg-neutral-800 overflow-hidden">
+            <div
+              className="h-full bg-emerald-500"
+              style={{ width: `${Math.min(100, (totalBytes / limitBytes) * 100)}%` }}
+            />
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            Size limit
+            <select
+              value={limitBytes}
+              onChange={(e) => report(() => getStemCache().setLimit(Number(e.target.value)))}
+              className="bg-neutral-800 border border-neutral-700 rounded p-1 text-white"
+            >
+              {[...new Set([...LIMIT_OPTIONS, limitBytes])].sort((a, b) => a - b).map((bytes) => (
+                <option key={bytes} value={bytes}>
+                  {formatSize(bytes)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500">Separated songs are kept here for instant reuse.</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto space-y-1">
+              {entries.map((entry) => (
+                <li key={entry.key} className="flex items-center gap-2 bg-neutral-800 rounded p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-white" title={entry.label}>
+                      {entry.label}
+                    </div>
+                    <div className="text-[10px] text-gray-400 truncate">
+                      {entry.backendName} · {entry.stemSet} · {formatSize(entry.sizeBytes)} · used{" "}
+                      {new Date(entry.lastUsedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => report(() => getStemCache().remove(entry.key))}
+                    title="Remove from cache"
+                    className="p-1 rounded hover:bg-neutral-700"
+                  >
+                    <LuX />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="w-full px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 transition text-white
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear cache
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StemCache;
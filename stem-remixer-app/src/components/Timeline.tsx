@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { LuX, LuZoomIn, LuZoomOut } from "react-icons/lu";
+import { decodeAudioUrl } from "@/lib/audio/context";
+import { computePeaks } from "@/lib/audio/peaks";
+import { getTransport } from "@/lib/audio/transport";
+import { usePlayhead, useTransportSnapshot } from "@/lib/audio/useTransport";
+
+// =================== TYPES ===================
+
+export interface TimelineLane {
+  id: string;
+  label: string;
+  color: string;
+  audioUrl?: string;
+  offset: number;
+  audible: boolean;
+}
+
+interface ClipAudio {
+  duration: number;
+  peaks: Float32Array;
+}
+
+const MIN_ZOOM = 5; // pixels per second
+const MAX_ZOOM = 320;
+const LANE_HEIGHT = 44;
+const HEADER_WIDTH = 160;
+const TRAILING_SECONDS = 10;
+// Browsers cap canvas size; wider clips are drawn at this resolution and stretched.
+const MAX_CANVAS_WIDTH = 8192;
+
+// Ruler spacing that keeps labels roughly 60px apart at the current zoom.
+const rulerStep = (pixelsPerSecond: number) =>
+  [0.5, 1, 2, 5, 10, 15, 30, 60].find((step) => step * pixelsPerSecond >= 60) ?? 120;
+
+const formatRulerTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  const whole = Number.isInteger(rest);
+  return `${minutes}:${(whole ? String(rest) : rest.toFixed(1)).padStart(whole ? 2 : 4, "0")}`;
+};
+
+// =================== CLIPS ===================
+
+// Decodes every lane's audio once (the decode cache is shared with the graph).
+const useClipAudio = (lanes: TimelineLane[]) => {
+  const [clips, setClips] = useState<Record<string, ClipAudio>>({});
+  // Lanes are rebuilt every render; the URL list only changes when a clip's audio does.
+  const key = lanes.flatMap((lane) => (lane.audioUrl ? [lane.audioUrl] : [])).join("\n");
+  const urls = useMemo(() => (key ? key.split("\n") : []), [key]);
+
+  useEffect(() => {
+    let cancelled = false;
+    urls.forEach((url) =>
+      decodeAudioUrl(url)
+        .then((buffer) => {
+          if (cancelled) return;
+          setClips((prev) =>
+            prev[url] ? prev : { ...prev, [url]: { duration: buffer.duration, peaks: computePeaks(buffer, 1000) } }
+          );
+        })
+        .catch((err) => console.error("Timeline could not load clip:", err))
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [urls]);
+
+  return clips;
+};
+
+const ClipWaveform: React.FC<{ peaks: Float32Array; width: number; color: string }> = ({ peaks, width, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const height = canvas.height;
+    ctx.clearRect(0, 0, canvas.width, height);
+    ctx.fillStyle = color;
+    const max = Math.max(1e-3, ...peaks);
+    for (let x = 0; x < canvas.width; x++) {
+      const peak = peaks[Math.floor((x / canvas.width) * peaks.length)] / max;
+      const bar = Math.max(1, peak * (height - 4));
+      ctx.fillRect(x, (height - bar) / 2, 1, bar);
+    }
+  }, [peaks, width, color]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.round(width)))}
+      height={LANE_HEIGHT - 12}
+      className="block"
+      style={{ width, height: LANE_HEIGHT - 12 }}
+    />
+  );
+};
+
+// =================== TIMELINE ===================
+
+interface TimelineProps {
+  lanes: TimelineLane[];
+  onOffsetChange: (id: string, offset: number) => void;
+  onClose: () => void;
+}
+
+const Timeline: React.FC<TimelineProps> = ({ lanes, onOffsetChange, onClose }) => {
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(40);
+  const [drag, setDrag] = useState<{ id: string; offset: number } | null>(null);
+  const clips = useClipAudio(lanes);
+  const position = usePlayhead();
+  const { duration, loop } = useTransportSnapshot();
+
+  const offsetOf = (lane: TimelineLane) => (drag?.id === lane.id ? drag.offset : lane.offset);
+  const laneEnd = (lane: TimelineLane) => offsetOf(lane) + (lane.audioUrl ? clips[lane.audioUrl]?.duration ?? 0 : 0);
+  const totalSeconds = Math.max(duration, ...lanes.map(laneEnd)) + TRAILING_SECONDS;
+  const width = totalSeconds * pixelsPerSecond;
+  const step = rulerStep(pixelsPerSecond);
+
+  const zoom = (factor: number) =>
+    setPixelsPerSecond((pps) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, pps * factor)));
+
+  const seekFromPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    getTransport().seek(Math.max(0, (e.clientX - rect.left) / pixelsPerSecond));
+  };
+
+  // Drag a clip along the time axis; the new offset is committed on release.
+  const handleClipPointerDown = (e: React.PointerEvent<HTMLDivElement>, lane: TimelineLane) => {
+    e.stopPropagation();
+    const startX = e.clientX;
+    const target = e.currentTarget;
+    target.setPointerCapture(e.pointerId);
+    let offset = lane.offset;
+
+    const handleMove = (move: PointerEvent) => {
+      offset = Math.max(0, Math.round((lane.offset + (move.clientX - startX) / pixelsPerSecond) * 100) / 100);
+      setDrag({ id: lane.id, offset });
+    };
+    const handleUp = () => {
+      target.removeEventListener("pointermove", handleMove);
+      target.removeEventListener("pointerup", handleUp);
+      setDrag(null);
+      if (offset !== lane.offset) onOffsetChange(lane.id, offset);
+    };
+    target.addEventListener("pointermove", handleMove);
+    target.addEventListener("pointerup", handleUp);
+  };
+
+  return (
+    <div className="absolute left-6 right-6 bottom-24 h-72 bg-neutral-900/95 border border-neutral-700 shadow-lg
+              rounded-xl backdrop-blur-sm text-white flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-neutral-800">
+        <h3 className="text-sm font-medium flex-1">Arrangement</h3>
+        <button onClick={() => zoom(0.5)} title="Zoom out" className="p-1 rounded hover:bg-neutral-800">
+          <LuZoomOut />
+        </button>
+        <button onClick={() => zoom(2)} title="Zoom in" className="p-1 rounded hover:bg-neutral-800">
+          <LuZoomIn />
+        </button>
+        <button onClick={onClose} title="Close timeline" className="p-1 rounded hover:bg-neutral-800">
+          <LuX />
+        </button>
+      </div>
+
+      {lanes.length === 0 ? (
+        <p className="m-auto text-xs text-gray-500">Separate a song to arrange its stems.</p>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <div className="relative" style={{ width: HEADER_WIDTH + width }}>
+            {/* Ruler */}
+            <div className="sticky top-0 z-20 flex h-6 bg-neutral-900 border-b border-neutral-800">
+              <div className="sticky left-0 z-10 shrink-0 bg-neutral-900" style={{ width: HEADER_WIDTH }} />
+              <div className="relative cursor-pointer" style={{ width }} onClick={seekFromPointer}>
+                {Array.from({ length: Math.floor(totalSeconds / step) + 1 }, (_, i) => (
+                  <div
+                    key={i}
+                    className="absolute top-0 h-full border-l border-neutral-700 pl-1 text-[10px] text-gray-400"
+                    style={{ left: i * step * pixelsPerSecond }}
+                  >
+                    {formatRulerTime(i * step)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Lanes */}
+            {lanes.map((lane) => {
+              const clip = lane.audioUrl ? clips[lane.audioUrl] : undefined;
+              return (
+                <div key={lane.id} className="flex border-b border-neutral-800" style={{ height: LANE_HEIGHT }}>
+                  <div
+                    className="sticky left-0 z-10 shrink-0 flex items-center gap-2 px-2 bg-neutral-900 text-xs border-r border-neutral-800"
+                    style={{ width: HEADER_WIDTH }}
+                  >
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ background: lane.color }} />
+                    <span className={`truncate ${lane.audible ? "" : "text-gray-500 line-through"}`} title={lane.label}>
+                      {lane.label}
+                    </span>
+                  </div>
+                  <div className="relative" style={{ width }} onClick={seekFromPointer}>
+                    {clip && (
+                      <div
+                        onPointerDown={(e) => handleClipPointerDown(e, lane)}
+                        onClick={(e) => e.stopPropagation()}
+                        className={`absolute top-1.5 rounded border cursor-grab active:cursor-grabbing overflow-hidden
+                                    ${lane.audible ? "" : "opacity-40"}`}
+                        style={{
+                          left: offsetOf(lane) * pixelsPerSecond,
+                          width: clip.duration * pixelsPerSecond,
+                          borderColor: lane.color,
+                          background: `${lane.color}26`,
+                        }}
+                        title={`Starts at ${formatRulerTime(offsetOf(lane))}`}
+                      >
+                        <ClipWaveform peaks={clip.peaks} width={clip.duration * pixelsPerSecond} color={lane.color} />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Loop + playhead overlays */}
+            {loop && (
+              <div
+                className="pointer-events-none absolute top-0 bottom-0 bg-emerald-500/10 border-x border-emerald-500/60"
+                style={{
+                  left: HEADER_WIDTH + loop.start * pixelsPerSecond,
+                  width: (loop.end - loop.start) * pixelsPerSecond,
+                }}
+              />
+            )}
+            <div
+              className="pointer-events-none absolute top-0 bottom-0 z-30 w-px bg-white"
+              style={{ left: HEADER_WIDTH + position * pixelsPerSecond }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,232 @@
+// =================== TYPES ===================
+
+export type KeyMode = "major" | "minor";
+
+export interface MusicalKey {
+  tonic: number; // pitch class, 0 = C
+  mode: KeyMode;
+}
+
+export interface TempoKey {
+  bpm: number;
+  key: MusicalKey;
+}
+
+export interface AudioAnalysis extends TempoKey {
+  beatOffset: number; // seconds to the first beat of the grid
+  duration: number;
+  keyConfidence: number; // profile correlation, -1..1
+}
+
+// =================== CONSTANTS ===================
+
+// Analysis runs on a mono copy at a lower rate; tempo and key live well below 11 kHz.
+const ANALYSIS_SAMPLE_RATE = 22050;
+const ONSET_HOP = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+const CHROMA_FRAME = 4096;
+const CHROMA_MAX_FRAMES = 120;
+const CHROMA_LOW_NOTE = 48; // C3
+const CHROMA_HIGH_NOTE = 84; // C6
+
+export const PITCH_CLASSES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+// Krumhansl-Kessler key profiles, tonic first.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// =================== KEYS ===================
+
+export const formatKey = (key: MusicalKey): string => `${PITCH_CLASSES[key.tonic]} ${key.mode}`;
+
+export const ALL_KEYS: MusicalKey[] = (["major", "minor"] as KeyMode[]).flatMap((mode) =>
+  PITCH_CLASSES.map((_, tonic) => ({ tonic, mode }))
+);
+
+// Smallest shift (-6..+5 semitones) that moves `from` onto `to`. Modes are
+// compared through their relative major, so A minor -> C major is no shift.
+export const semitoneShift = (from: MusicalKey, to: MusicalKey): number => {
+  const relativeMajor = (key: MusicalKey) => (key.mode === "minor" ? key.tonic + 3 : key.tonic);
+  const diff = (((relativeMajor(to) - relativeMajor(from)) % 12) + 12) % 12;
+  return diff > 5 ? diff - 12 : diff;
+};
+
+// Playback-rate factor that brings `fromBpm` to `toBpm`. Half- and double-time
+// are treated as matches so a stem is never stretched by more than ~1.41x.
+export const tempoRatio = (fromBpm: number, toBpm: number): number => {
+  let ratio = toBpm / fromBpm;
+  while (ratio > Math.SQRT2) ratio /= 2;
+  while (ratio < Math.SQRT1_2) ratio *= 2;
+  return ratio;
+};
+
+export const beatTimes = (analysis: AudioAnalysis): number[] => {
+  const interval = 60 / analysis.bpm;
+  const count = Math.max(0, Math.floor((analysis.duration - analysis.beatOffset) / interval) + 1);
+  return Array.from({ length: count }, (_, i) => analysis.beatOffset + i * interval);
+};
+
+// =================== PREPROCESSING ===================
+
+// Runs on an OfflineAudioContext, which renders off the main thread; the
+// analysis itself then only needs the samples (see analyzeSamples).
+export const toAnalysisMono = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const ctx = new OfflineAudioContext(1, Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE), ANALYSIS_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  const rendered = await ctx.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// =================== TEMPO ===================
+
+// Half-wave rectified change in log energy, with the local mean removed so
+// sustained loud passages don't read as onsets.
+const onsetEnvelope = (samples: Float32Array): Float32Array => {
+  const frames = Math.floor(samples.length / ONSET_HOP);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * ONSET_HOP; i < (f + 1) * ONSET_HOP; i++) sum += samples[i] * samples[i];
+    energy[f] = Math.log(1e-6 + sum / ONSET_HOP);
+  }
+
+  const flux = new Float32Array(frames);
+  for (let f = 1; f < frames; f++) flux[f] = Math.max(0, energy[f] - energy[f - 1]);
+
+  const radius = 8;
+  const envelope = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let mean = 0;
+    let count = 0;
+    for (let j = Math.max(0, f - radius); j <= Math.min(frames - 1, f + radius); j++) {
+      mean += flux[j];
+      count++;
+    }
+    envelope[f] = Math.max(0, flux[f] - mean / count);
+  }
+  return envelope;
+};
+
+const detectTempo = (envelope: Float32Array, frameRate: number): number => {
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  const scores = new Float32Array(maxLag + 2);
+
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    // A log-normal prior around 120 BPM settles most octave ambiguities.
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    scores[lag] = sum * prior;
+  }
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[best]) best = lag;
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision.
+  const [a, b, c] = [scores[best - 1] ?? 0, scores[best], scores[best + 1] ?? 0];
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+  return (60 * frameRate) / (best + Math.max(-0.5, Math.min(0.5, offset)));
+};
+
+// Phase of the beat grid that lines up with the most onset energy.
+const detectBeatOffset = (envelope: Float32Array, frameRate: number, bpm: number): number => {
+  const period = (60 * frameRate) / bpm;
+  let bestPhase = 0;
+  let bestScore = -1;
+
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let t = phase; t < envelope.length; t += period) score += envelope[Math.round(t)] ?? 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase / frameRate;
+};
+
+// =================== KEY ===================
+
+// Energy per pitch class, measured with a Goertzel filter at every note from
+// C3 to B5 on evenly spaced frames across the track.
+const chromagram = (samples: Float32Array): Float32Array => {
+  const chroma = new Float32Array(12);
+  const window = new Float32Array(CHROMA_FRAME);
+  for (let i = 0; i < CHROMA_FRAME; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / CHROMA_FRAME);
+
+  const available = Math.floor(samples.length / CHROMA_FRAME);
+  const frames = Math.min(available, CHROMA_MAX_FRAMES);
+  const hop = frames > 0 ? Math.floor((samples.length - CHROMA_FRAME) / Math.max(1, frames - 1)) : 0;
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * hop;
+    for (let note = CHROMA_LOW_NOTE; note < CHROMA_HIGH_NOTE; note++) {
+      const frequency = 440 * Math.pow(2, (note - 69) / 12);
+      const coeff = 2 * Math.cos((2 * Math.PI * frequency) / ANALYSIS_SAMPLE_RATE);
+      let s1 = 0;
+      let s2 = 0;
+      for (let i = 0; i < CHROMA_FRAME; i++) {
+        const s0 = samples[start + i] * window[i] + coeff * s1 - s2;
+        s2 = s1;
+        s1 = s0;
+      }
+      chroma[note % 12] += s1 * s1 + s2 * s2 - coeff * s1 * s2;
+    }
+  }
+  return chroma;
+};
+
+const correlation = (a: number[], b: number[]) => {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const [ma, mb] = [mean(a), mean(b)];
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+};
+
+const detectKey = (chroma: Float32Array): { key: MusicalKey; confidence: number } => {
+  const values = Array.from(chroma);
+  let best = { key: { tonic: 0, mode: "major" as KeyMode }, confidence: -1 };
+
+  ALL_KEYS.forEach((key) => {
+    const profile = key.mode === "major" ? MAJOR_PROFILE : MINOR_PROFILE;
+    const rotated = values.map((_, pc) => profile[(pc - key.tonic + 12) % 12]);
+    const score = correlation(values, rotated);
+    if (score > best.confidence) best = { key, confidence: score };
+  });
+  return best;
+};
+
+// =================== ANALYSIS ===================
+
+// `samples` is the output of toAnalysisMono; `duration` that of the original audio.
+export const analyzeSamples = (samples: Float32Array, duration: number): AudioAnalysis => {
+  const frameRate = ANALYSIS_SAMPLE_RATE / ONSET_HOP;
+  const envelope = onsetEnvelope(samples);
+  const bpm = detectTempo(envelope, frameRate);
+  const { key, confidence } = detectKey(chromagram(samples));
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    beatOffset: detectBeatOffset(envelope, frameRate, bpm),
+    duration,
+    key,
+    keyConfidence: confidence,
+  };
+};
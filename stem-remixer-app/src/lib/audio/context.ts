@@ -0,0 +1,36 @@
+// =================== SHARED AUDIO CONTEXT ===================
+
+let sharedContext: AudioContext | null = null;
+
+// Browsers only allow one realtime context to start after a user gesture,
+// so every part of the app shares this lazily created instance.
+export const getAudioContext = (): AudioContext => {
+  if (!sharedContext) {
+    sharedContext = new AudioContext();
+  }
+  return sharedContext;
+};
+
+// =================== DECODING ===================
+
+const decodeCache = new Map<string, Promise<AudioBuffer>>();
+
+export const decodeAudioUrl = (url: string): Promise<AudioBuffer> => {
+  const cached = decodeCache.get(url);
+  if (cached) return cached;
+
+  const pending = fetch(url)
+    .then((res) => {
+      if (!res.ok) throw new Error(`Failed to fetch audio (${res.status})`);
+      return res.arrayBuffer();
+    })
+    .then((bytes) => getAudioContext().decodeAudioData(bytes));
+
+  // Drop failures so a later attempt can retry the download.
+  pending.catch(() => decodeCache.delete(url));
+  decodeCache.set(url, pending);
+  return pending;
+};
+
+// For URLs that are about to be revoked.
+export const forgetDecodedAudio = (url: string) => decodeCache.delete(url);
@@ -0,0 +1,72 @@
+import { AudioAnalysis, toAnalysisMono } from "./analysis";
+import type { DspRequest, DspResponse } from "./dsp.worker";
+import { isIdentityMatch, MatchAdjustment } from "./stretch";
+
+// =================== WORKER ===================
+
+// Distributes the request type over its variants, so each keeps its own fields.
+type WithoutId<T> = T extends { id: number } ? Omit<T, "id"> : never;
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (response: DspResponse) => void; reject: (err: Error) => void }>();
+
+// One worker for the whole app, started on first use.
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("./dsp.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<DspResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      pending.delete(response.id);
+      if (!request) return;
+      if ("error" in response) request.reject(new Error(response.error));
+      else request.resolve(response);
+    };
+    worker.onerror = (event) => {
+      console.error("Audio worker crashed:", event.message);
+      pending.forEach(({ reject }) => reject(new Error("The audio worker stopped.")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runInWorker = (request: WithoutId<DspRequest>, transfer: Transferable[]): Promise<DspResponse> =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...request, id }, transfer);
+  });
+
+// =================== TASKS ===================
+
+// Time-stretch and pitch-shift a whole stem (see matchChannels).
+export const applyMatch = async (buffer: AudioBuffer, adjustment: MatchAdjustment): Promise<AudioBuffer> => {
+  if (isIdentityMatch(adjustment)) return buffer;
+  // Copies: the decoded buffer is cached and shared, so its data must not be transferred away.
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+  const response = await runInWorker(
+    { task: "match", channels, sampleRate: buffer.sampleRate, adjustment },
+    channels.map((data) => data.buffer)
+  );
+  if (!("channels" in response)) throw new Error("Unexpected response from the audio worker.");
+
+  const output = new AudioBuffer({
+    length: response.channels[0].length,
+    numberOfChannels: response.channels.length,
+    sampleRate: buffer.sampleRate,
+  });
+  response.channels.forEach((data, c) => output.copyToChannel(data, c));
+  return output;
+};
+
+// Tempo, beat grid and key of a whole song.
+export const analyzeAudio = async (buffer: AudioBuffer): Promise<AudioAnalysis> => {
+  const samples = await toAnalysisMono(buffer);
+  const response = await runInWorker({ task: "analyze", samples, duration: buffer.duration }, [samples.buffer]);
+  if (!("analysis" in response)) throw new Error("Unexpected response from the audio worker.");
+  return response.analysis;
+};
@@ -0,0 +1,33 @@
+import { analyzeSamples, AudioAnalysis } from "./analysis";
+import { MatchAdjustment, matchChannels } from "./stretch";
+
+// =================== MESSAGES ===================
+
+export type DspRequest =
+  | { id: number; task: "match"; channels: Float32Array[]; sampleRate: number; adjustment: MatchAdjustment }
+  | { id: number; task: "analyze"; samples: Float32Array; duration: number };
+
+export type DspResponse =
+  | { id: number; channels: Float32Array[] }
+  | { id: number; analysis: AudioAnalysis }
+  | { id: number; error: string };
+
+// =================== WORKER ===================
+
+// Whole-song DSP that would otherwise freeze the page for seconds.
+self.onmessage = (event: MessageEvent<DspRequest>) => {
+  const request = event.data;
+  try {
+    if (request.task === "match") {
+      const channels = matchChannels(request.channels, request.sampleRate, request.adjustment);
+      const response: DspResponse = { id: request.id, channels };
+      self.postMessage(response, { transfer: channels.map((data) => data.buffer) });
+    } else {
+      const response: DspResponse = { id: request.id, analysis: analyzeSamples(request.samples, request.duration) };
+      self.postMessage(response);
+    }
+  } catch (err) {
+    const response: DspResponse = { id: request.id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,82 @@
+// =================== TYPES ===================
+
+export type EditType = "trim" | "cut" | "duplicate" | "fadeIn" | "fadeOut";
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+// Edits are applied in order, each in the timeline produced by the ones
+// before it, so a list replays exactly what the user saw on the waveform.
+export interface EditOperation extends TimeRange {
+  type: EditType;
+}
+
+export const EDIT_LABELS: Record<EditType, string> = {
+  trim: "Trim",
+  cut: "Cut",
+  duplicate: "Duplicate",
+  fadeIn: "Fade in",
+  fadeOut: "Fade out",
+};
+
+// =================== HELPERS ===================
+
+const createBuffer = (like: AudioBuffer, length: number) =>
+  new AudioBuffer({ length: Math.max(1, length), numberOfChannels: like.numberOfChannels, sampleRate: like.sampleRate });
+
+// Concatenates sample ranges [from, to) of `buffer` into a new buffer.
+const splice = (buffer: AudioBuffer, ranges: [number, number][]): AudioBuffer => {
+  const length = ranges.reduce((sum, [from, to]) => sum + (to - from), 0);
+  const output = createBuffer(buffer, length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const input = buffer.getChannelData(c);
+    const data = output.getChannelData(c);
+    let offset = 0;
+    ranges.forEach(([from, to]) => {
+      data.set(input.subarray(from, to), offset);
+      offset += to - from;
+    });
+  }
+  return output;
+};
+
+const fade = (buffer: AudioBuffer, from: number, to: number, direction: "in" | "out"): AudioBuffer => {
+  const output = splice(buffer, [[0, buffer.length]]);
+  const length = Math.max(1, to - from);
+  for (let c = 0; c < output.numberOfChannels; c++) {
+    const data = output.getChannelData(c);
+    for (let i = from; i < to; i++) {
+      const progress = (i - from) / length;
+      data[i] *= direction === "in" ? progress : 1 - progress;
+    }
+  }
+  return output;
+};
+
+// =================== EDITING ===================
+
+const applyEdit = (buffer: AudioBuffer, edit: EditOperation): AudioBuffer => {
+  const toSample = (time: number) => Math.min(buffer.length, Math.max(0, Math.round(time * buffer.sampleRate)));
+  const from = toSample(Math.min(edit.start, edit.end));
+  const to = toSample(Math.max(edit.start, edit.end));
+  if (to <= from) return buffer;
+
+  switch (edit.type) {
+    case "trim":
+      return splice(buffer, [[from, to]]);
+    case "cut":
+      return splice(buffer, [[0, from], [to, buffer.length]]);
+    case "duplicate":
+      return splice(buffer, [[0, to], [from, to], [to, buffer.length]]);
+    case "fadeIn":
+      return fade(buffer, from, to, "in");
+    case "fadeOut":
+      return fade(buffer, from, to, "out");
+  }
+};
+
+// Renders the edit list onto the original audio; the original is never modified.
+export const applyEdits = (buffer: AudioBuffer, edits: EditOperation[]): AudioBuffer =>
+  edits.reduce(applyEdit, buffer);
@@ -0,0 +1,243 @@
+// =================== TYPES ===================
+
+export type EffectType = "reverb" | "lofi" | "vintage" | "robotic";
+
+export interface EffectParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit?: string;
+}
+
+// Values keyed by `EffectParamSpec.key`; missing keys fall back to defaults.
+export type EffectParams = Record<string, number>;
+
+interface EffectDefinition {
+  label: string;
+  params: EffectParamSpec[];
+  // Extra seconds rendered past the end of the input (e.g. reverb tails).
+  tail: (params: EffectParams) => number;
+  build: (ctx: OfflineAudioContext, input: AudioNode, output: AudioNode, params: EffectParams) => void;
+  postProcess?: (buffer: AudioBuffer, params: EffectParams) => void;
+  // Rewrites params stored in an older shape (projects, presets) to the current one.
+  migrate?: (params: EffectParams) => EffectParams;
+}
+
+// =================== HELPERS ===================
+
+const createImpulse = (ctx: BaseAudioContext, seconds: number, decay: number) => {
+  const length = Math.floor(ctx.sampleRate * seconds);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let c = 0; c < impulse.numberOfChannels; c++) {
+    const data = impulse.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+    }
+  }
+  return impulse;
+};
+
+const createSaturationCurve = (amount: number) => {
+  const samples = 1024;
+  const curve = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / samples - 1;
+    curve[i] = Math.tanh(amount * x) / Math.tanh(amount);
+  }
+  return curve;
+};
+
+const createFilter = (
+  ctx: BaseAudioContext,
+  type: BiquadFilterType,
+  frequency: number,
+  gain = 0,
+  Q = 0.707
+) => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  filter.gain.value = gain;
+  filter.Q.value = Q;
+  return filter;
+};
+
+// Sample-and-hold downsampling plus amplitude quantization.
+const bitcrush = (buffer: AudioBuffer, bits: number, holdSamples: number) => {
+  const steps = Math.pow(2, bits - 1);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let held = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (i % holdSamples === 0) held = Math.round(data[i] * steps) / steps;
+      data[i] = held;
+    }
+  }
+};
+
+// Pitch drift of a worn tape: a slowly modulated short delay.
+const createWow = (ctx: BaseAudioContext, depth: number) => {
+  const delay = ctx.createDelay(0.05);
+  delay.delayTime.value = 0.01;
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = 0.6;
+  const amount = ctx.createGain();
+  amount.gain.value = depth * 0.004;
+  lfo.connect(amount).connect(delay.delayTime);
+  lfo.start();
+  return delay;
+};
+
+// =================== EFFECTS ===================
+
+const EFFECTS: Record<EffectType, EffectDefinition> = {
+  reverb: {
+    label: "Reverb",
+    params: [
+      { key: "decay", label: "Decay", min: 0.5, max: 8, step: 0.1, default: 3, unit: "s" },
+      { key: "predelay", label: "Pre-delay", min: 0, max: 200, step: 5, default: 0, unit: "ms" },
+      // Defaults are the levels the reverb had before it took parameters, so
+      // projects saved without params keep their sound.
+      { key: "dry", label: "Dry", min: 0, max: 1, step: 0.01, default: 0.7 },
+      { key: "wet", label: "Wet", min: 0, max: 1, step: 0.01, default: 0.45 },
+    ],
+    tail: (params) => params.decay + params.predelay / 1000,
+    build: (ctx, input, output, params) => {
+      const predelay = ctx.createDelay(1);
+      predelay.delayTime.value = params.predelay / 1000;
+      const convolver = ctx.createConvolver();
+      convolver.buffer = createImpulse(ctx, params.decay, 2.5);
+      const dry = ctx.createGain();
+      const wet = ctx.createGain();
+      dry.gain.value = params.dry;
+      wet.gain.value = params.wet;
+      input.connect(dry).connect(output);
+      input.connect(predelay).connect(convolver).connect(wet).connect(output);
+    },
+    // A single equal-power `mix` used to set both levels.
+    migrate: ({ mix, ...params }) =>
+      mix === undefined || "dry" in params || "wet" in params
+        ? params
+        : { ...params, dry: Math.cos((mix * Math.PI) / 2), wet: Math.sin((mix * Math.PI) / 2) * 0.6 },
+  },
+  lofi: {
+    label: "Lo-fi",
+    params: [
+      { key: "bits", label: "Bit depth", min: 2, max: 16, step: 1, default: 8, unit: "bit" },
+      { key: "sampleRate", label: "Sample rate", min: 2000, max: 22050, step: 50, default: 11025, unit: "Hz" },
+      { key: "wow", label: "Wow", min: 0, max: 1, step: 0.01, default: 0 },
+      { key: "tone", label: "Tone", min: 1000, max: 12000, step: 100, default: 3500, unit: "Hz" },
+    ],
+    tail: () => 0,
+    build: (ctx, input, output, params) => {
+      const lowpass = createFilter(ctx, "lowpass", params.tone);
+      const highpass = createFilter(ctx, "highpass", 200);
+      // The wow delay is only inserted when used, so the dry timing matches the other stems.
+      const head = params.wow > 0 ? input.connect(createWow(ctx, params.wow)) : input;
+      head.connect(highpass).connect(lowpass).connect(output);
+    },
+    postProcess: (buffer, params) =>
+      bitcrush(buffer, params.bits, Math.max(1, Math.round(buffer.sampleRate / params.sampleRate))),
+  },
+  vintage: {
+    label: "Vintage",
+    params: [
+      { key: "drive", label: "Drive", min: 1, max: 8, step: 0.1, default: 2.5 },
+      { key: "presence", label: "Presence", min: 0, max: 10, step: 0.5, default: 4, unit: "dB" },
+      { key: "tone", label: "Tone", min: 2000, max: 12000, step: 100, default: 5000, unit: "Hz" },
+    ],
+    tail: () => 0,
+    build: (ctx, input, output, params) => {
+      const highpass = createFilter(ctx, "highpass", 120);
+      const lowpass = createFilter(ctx, "lowpass", params.tone);
+      const presence = createFilter(ctx, "peaking", 1200, params.presence, 0.8);
+      const shaper = ctx.createWaveShaper();
+      shaper.curve = createSaturationCurve(params.drive);
+      shaper.oversample = "2x";
+      const trim = ctx.createGain();
+      trim.gain.value = 0.8;
+      input.connect(highpass).connect(presence).connect(shaper).connect(lowpass).connect(trim).connect(output);
+    },
+  },
+  robotic: {
+    label: "Robotic",
+    params: [
+      { key: "carrier", label: "Carrier", min: 20, max: 800, step: 1, default: 60, unit: "Hz" },
+      { key: "comb", label: "Comb", min: 2, max: 30, step: 0.5, default: 12, unit: "ms" },
+      { key: "feedback", label: "Feedback", min: 0, max: 0.9, step: 0.01, default: 0.5 },
+    ],
+    // Time for the comb's feedback loop to ring down to -60 dB, plus a little slack.
+    tail: (params) => ((params.comb / 1000) * Math.log(0.001)) / Math.log(Math.max(params.feedback, 0.01)) + 0.05,
+    build: (ctx, input, output, params) => {
+      // Ring modulation: the carrier drives the gain of the signal path.
+      const ring = ctx.createGain();
+      ring.gain.value = 0;
+      const carrier = ctx.createOscillator();
+      carrier.type = "sine";
+      carrier.frequency.value = params.carrier;
+      carrier.connect(ring.gain);
+      carrier.start();
+
+      // A short feedback delay adds the metallic comb colouring.
+      const comb = ctx.createDelay();
+      comb.delayTime.value = params.comb / 1000;
+      const feedback = ctx.createGain();
+      feedback.gain.value = params.feedback;
+      comb.connect(feedback).connect(comb);
+
+      input.connect(ring);
+      ring.connect(output);
+      ring.connect(comb).connect(output);
+    },
+  },
+};
+
+export const EFFECT_OPTIONS = (Object.keys(EFFECTS) as EffectType[]).map((value) => ({
+  value,
+  label: EFFECTS[value].label,
+}));
+
+export const isEffectType = (value: string): value is EffectType => value in EFFECTS;
+
+export const effectParamSpecs = (effect: EffectType): EffectParamSpec[] => EFFECTS[effect].params;
+
+export const defaultEffectParams = (effect: EffectType): EffectParams =>
+  Object.fromEntries(EFFECTS[effect].params.map((spec) => [spec.key, spec.default]));
+
+// Fills in defaults and clamps to each parameter's range, so params from an
+// older project or a stale preset always render.
+export const resolveEffectParams = (effect: EffectType, params?: EffectParams): EffectParams => {
+  const { migrate } = EFFECTS[effect];
+  const current = params && migrate ? migrate(params) : params;
+  return Object.fromEntries(
+    EFFECTS[effect].params.map((spec) => {
+      const value = current?.[spec.key];
+      return [spec.key, Number.isFinite(value) ? Math.min(spec.max, Math.max(spec.min, value!)) : spec.default];
+    })
+  );
+};
+
+// =================== RENDERING ===================
+
+export const renderEffect = async (
+  source: AudioBuffer,
+  effect: EffectType,
+  params?: EffectParams
+): Promise<AudioBuffer> => {
+  const definition = EFFECTS[effect];
+  const resolved = resolveEffectParams(effect, params);
+  const length = source.length + Math.ceil(definition.tail(resolved) * source.sampleRate);
+  const ctx = new OfflineAudioContext(source.numberOfChannels, length, source.sampleRate);
+
+  const input = ctx.createBufferSource();
+  input.buffer = source;
+  definition.build(ctx, input, ctx.destination, resolved);
+  input.start();
+
+  const rendered = await ctx.startRendering();
+  definition.postProcess?.(rendered, resolved);
+  return rendered;
+};
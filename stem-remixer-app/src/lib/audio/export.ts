@@ -0,0 +1,136 @@
+import { encodeFlac } from "./flac";
+import { measureLoudness } from "./metering";
+import { encodeOpus } from "./opus";
+import { encodeWav } from "./wav";
+
+// =================== FORMATS ===================
+
+export type ExportFormat = "wav16" | "wav24" | "wav32f" | "flac16" | "flac24" | "opus";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: "wav16", label: "WAV 16-bit", extension: "wav" },
+  { id: "wav24", label: "WAV 24-bit", extension: "wav" },
+  { id: "wav32f", label: "WAV 32-bit float", extension: "wav" },
+  { id: "flac16", label: "FLAC 16-bit", extension: "flac" },
+  { id: "flac24", label: "FLAC 24-bit", extension: "flac" },
+  { id: "opus", label: "Opus 160 kbps (lossy)", extension: "opus" },
+];
+
+// Common delivery targets: broadcast (EBU R128), podcasts, streaming services.
+export const LOUDNESS_TARGETS = [-23, -16, -14];
+
+export interface ExportSettings {
+  format: ExportFormat;
+  normalize: boolean;
+  targetLufs: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: "wav24", normalize: false, targetLufs: -14 };
+
+// =================== NORMALIZATION ===================
+
+// Normalization only applies gain, so it never pushes the peak above this.
+const PEAK_CEILING_DB = -1;
+
+export interface LoudnessAdjustment {
+  measuredLufs: number;
+  gainDb: number;
+}
+
+const peakOf = (buffer: AudioBuffer) => {
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const samples = buffer.getChannelData(c);
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+};
+
+// Gains `buffer` towards `targetLufs`. A quiet stem with loud transients ends
+// up under the target rather than clipping; silence is left alone.
+export const normalizeLoudness = async (
+  buffer: AudioBuffer,
+  targetLufs: number
+): Promise<{ buffer: AudioBuffer; adjustment: LoudnessAdjustment }> => {
+  const measuredLufs = await measureLoudness(buffer);
+  const peak = peakOf(buffer);
+  if (!Number.isFinite(measuredLufs) || peak === 0) return { buffer, adjustment: { measuredLufs, gainDb: 0 } };
+
+  const gainDb = Math.min(targetLufs - measuredLufs, PEAK_CEILING_DB - 20 * Math.log10(peak));
+  const gain = Math.pow(10, gainDb / 20);
+  const scaled = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    scaled.copyToChannel(buffer.getChannelData(c).map((sample) => sample * gain), c);
+  }
+  return { buffer: scaled, adjustment: { measuredLufs, gainDb } };
+};
+
+// =================== RENDER ===================
+
+export const encodeAudio = (buffer: AudioBuffer, format: ExportFormat, title?: string): Promise<Blob> => {
+  switch (format) {
+    case "wav16":
+      return Promise.resolve(encodeWav(buffer, 16));
+    case "wav24":
+      return Promise.resolve(encodeWav(buffer, 24));
+    case "wav32f":
+      return Promise.resolve(encodeWav(buffer, "32f"));
+    case "flac16":
+      return Promise.resolve(encodeFlac(buffer, 16));
+    case "flac24":
+      return Promise.resolve(encodeFlac(buffer, 24));
+    case "opus":
+      return encodeOpus(buffer, { title });
+  }
+};
+
+// Applies the export settings to a decoded buffer: optional loudness
+// normalization, then encoding.
+export const renderExport = async (
+  buffer: AudioBuffer,
+  settings: ExportSettings,
+  title?: string
+): Promise<{ blob: Blob; adjustment?: LoudnessAdjustment }> => {
+  if (!settings.normalize) return { blob: await encodeAudio(buffer, settings.format, title) };
+  const normalized = await normalizeLoudness(buffer, settings.targetLufs);
+  return { blob: await encodeAudio(normalized.buffer, settings.format, title), adjustment: normalized.adjustment };
+};
+
+// =================== FILE NAMES ===================
+
+export const formatExtension = (format: ExportFormat) =>
+  EXPORT_FORMATS.find((f) => f.id === format)?.extension ?? "wav";
+
+// "Song - Vocals - reverb.flac", with characters file systems reject removed.
+export const exportFileName = (parts: string[], extension: string): string => {
+  const base = parts
+    .map((part) => part.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "").replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(" - ");
+  return `${base || "export"}.${extension}`;
+};
+
+// =================== STORAGE ===================
+
+const STORAGE_KEY = "stem-remixer:export";
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") };
+  } catch (err) {
+    console.warn("Ignoring unreadable export settings:", err);
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Saving export settings failed:", err);
+  }
+};
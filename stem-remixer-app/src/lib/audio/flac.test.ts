@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { encodeFlac, FlacDepth } from "./flac";
+
+// Only the parts of AudioBuffer the encoder reads.
+const audioBuffer = (channels: Float32Array[], sampleRate = 44100) =>
+  ({
+    numberOfChannels: channels.length,
+    length: channels[0].length,
+    sampleRate,
+    getChannelData: (channel: number) => channels[channel],
+  }) as unknown as AudioBuffer;
+
+// Deterministic noise so failures reproduce.
+const noise = (length: number, amplitude: number, seed = 1) => {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return (state / 2 ** 30 - 1) * amplitude;
+  });
+};
+
+const sine = (length: number, frequency: number, sampleRate = 44100) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const toIntegers = (channel: Float32Array, depth: FlacDepth) =>
+  Array.from(channel, (value) => Math.round(value < 0 ? value * 2 ** (depth - 1) : value * (2 ** (depth - 1) - 1)) | 0);
+
+// =================== DECODER ===================
+
+// A bit-at-a-time decoder for the subset of FLAC the encoder writes, with
+// its own (table-free) checksums.
+
+const crc = (bytes: Uint8Array, poly: number, width: number) => {
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) value = value & (1 << (width - 1)) ? (value << 1) ^ poly : value << 1;
+    value &= (1 << width) - 1;
+  }
+  return value;
+};
+
+const createBitReader = (bytes: Uint8Array) => {
+  let position = 0; // in bits
+  const bit = () => (bytes[position >> 3] >> (7 - (position++ & 7))) & 1;
+  const read = (bits: number) => {
+    let value = 0;
+    for (let i = 0; i < bits; i++) value = value * 2 + bit();
+    return value;
+  };
+  return {
+    read,
+    readSigned: (bits: number) => {
+      const value = read(bits);
+      return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+    },
+    readUnary: () => {
+      let zeros = 0;
+      while (bit() === 0) zeros++;
+      return zeros;
+    },
+    alignToByte: () => (position = Math.ceil(position / 8) * 8),
+    bytePosition: () => position >> 3,
+    atEnd: () => position >= bytes.length * 8,
+  };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readSubframe = (reader: BitReader, size: number, depth: number, kinds: string[]) => {
+  expect(reader.read(1)).toBe(0);
+  const type = reader.read(6);
+  expect(reader.read(1)).toBe(0); // no wasted bits
+
+  if (type === 0) {
+    kinds.push("constant");
+    return new Array<number>(size).fill(reader.readSigned(depth));
+  }
+  if (type === 1) {
+    kinds.push("verbatim");
+    return Array.from({ length: size }, () => reader.readSigned(depth));
+  }
+  expect(type & 0b111000).toBe(0b001000);
+  const order = type & 0b111;
+  kinds.push(`fixed ${order}`);
+  const samples = Array.from({ length: order }, () => reader.readSigned(depth));
+
+  const method = reader.read(2);
+  expect(reader.read(4)).toBe(0); // partition order
+  const parameter = reader.read(method === 0 ? 4 : 5);
+  const coefficients = FIXED_COEFFICIENTS[order];
+  for (let i = order; i < size; i++) {
+    const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+    const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+    const prediction = coefficients.reduce((sum, coefficient, j) => sum + coefficient * samples[i - 1 - j], 0);
+    samples.push(prediction + residual);
+  }
+  return samples;
+};
+
+const decodeFlac = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const reader = createBitReader(bytes);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe("fLaC");
+  reader.read(32);
+
+  expect(reader.read(1)).toBe(1); // last metadata block
+  expect(reader.read(7)).toBe(0); // STREAMINFO
+  expect(reader.read(24)).toBe(34);
+  const info = {
+    minBlockSize: reader.read(16),
+    maxBlockSize: reader.read(16),
+    minFrameSize: reader.read(24),
+    maxFrameSize: reader.read(24),
+    sampleRate: reader.read(20),
+    channels: reader.read(3) + 1,
+    depth: reader.read(5) + 1,
+    totalSamples: reader.read(36),
+    md5: reader.read(64) + reader.read(64),
+  };
+
+  const channels = Array.from({ length: info.channels }, () => [] as number[]);
+  const frameSizes: number[] = [];
+  const kinds: string[] = [];
+  while (!reader.atEnd()) {
+    const frameStart = reader.bytePosition();
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    const sizeCode = reader.read(4);
+    reader.read(4); // sample rate code
+    expect(reader.read(4) + 1).toBe(info.channels);
+    reader.read(4); // sample size code, reserved
+    const lead = reader.read(8);
+    let frameNumber = lead;
+    if (lead >= 0x80) {
+      const count = Math.clz32(~(lead << 24));
+      frameNumber = lead & (0xff >> (count + 1));
+      for (let i = 1; i < count; i++) frameNumber = frameNumber * 64 + (reader.read(8) & 0x3f);
+    }
+    expect(frameNumber).toBe(frameSizes.length);
+    const size = sizeCode === 0b1100 ? 4096 : reader.read(16) + 1;
+    const headerEnd = reader.bytePosition();
+    expect(reader.read(8)).toBe(crc(bytes.subarray(frameStart, headerEnd), 0x07, 8));
+
+    channels.forEach((channel) => channel.push(...readSubframe(reader, size, info.depth, kinds)));
+    reader.alignToByte();
+    const frameEnd = reader.bytePosition();
+    expect(reader.read(16)).toBe(crc(bytes.subarray(frameStart, frameEnd), 0x8005, 16));
+    frameSizes.push(frameEnd + 2 - frameStart);
+  }
+  return { info, channels, frameSizes, kinds };
+};
+
+// =================== TESTS ===================
+
+describe("encodeFlac", () => {
+  it.each([16, 24] as const)("round-trips %i-bit stereo losslessly", async (depth) => {
+    const left = sine(4096 + 1000, 440);
+    const right = noise(4096 + 1000, 0.2);
+    const decoded = await decodeFlac(encodeFlac(audioBuffer([left, right]), depth));
+
+    expect(decoded.channels).toEqual([toIntegers(left, depth), toIntegers(right, depth)]);
+    expect(decoded.info).toEqual({
+      minBlockSize: 4096,
+      maxBlockSize: 4096,
+      minFrameSize: Math.min(...decoded.frameSizes),
+      maxFrameSize: Math.max(...decoded.frameSizes),
+      sampleRate: 44100,
+      channels: 2,
+      depth,
+      totalSamples: 5096,
+      md5: 0,
+    });
+  });
+
+  it("predicts smooth signals and stores silence as constants", async () => {
+    const { kinds } = await decodeFlac(encodeFlac(audioBuffer([sine(4096, 220), new Float32Array(4096)])));
+    expect(kinds[0]).toMatch(/^fixed [1-4]$/);
+    expect(kinds[1]).toBe("constant");
+  });
+
+  it("falls back to verbatim when prediction doesn't pay off", async () => {
+    const { channels, kinds } = await decodeFlac(encodeFlac(audioBuffer([noise(4096, 1)])));
+    expect(kinds).toEqual(["verbatim"]);
+    expect(channels[0]).toEqual(toIntegers(noise(4096, 1), 16));
+  });
+
+  it("clips out-of-range samples to full scale", async () => {
+    const { channels } = await decodeFlac(encodeFlac(audioBuffer([Float32Array.of(-2, -1, 0, 1, 2, 0.5)])));
+    expect(channels[0]).toEqual([-32768, -32768, 0, 32767, 32767, 16384]);
+  });
+
+  it("numbers frames past 127 with multi-byte codes", async () => {
+    const length = 4096 * 130 + 1;
+    const { channels, frameSizes, info } = await decodeFlac(encodeFlac(audioBuffer([new Float32Array(length)], 48000)));
+    expect(frameSizes).toHaveLength(131);
+    expect(channels[0]).toHaveLength(length);
+    expect(info.sampleRate).toBe(48000);
+  });
+});
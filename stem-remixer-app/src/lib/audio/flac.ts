@@ -0,0 +1,241 @@
+// =================== FLAC ENCODING ===================
+
+// A small FLAC encoder: fixed-size blocks, each channel coded independently
+// with the best of the fixed polynomial predictors (orders 0-4) and a single
+// Rice partition, falling back to verbatim or constant subframes when those
+// are smaller. It trades a few percent of size against libFLAC for having no
+// dependencies; the STREAMINFO MD5 is left as zeros ("not computed").
+
+export type FlacDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+
+// Frame header codes for sample rates the header can carry directly; anything
+// else points the decoder at STREAMINFO.
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+const SAMPLE_SIZE_CODES: Record<FlacDepth, number> = { 16: 0b100, 24: 0b110 };
+
+// =================== CHECKSUMS ===================
+
+const makeTable = (poly: number, width: number) => {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  return Uint16Array.from({ length: 256 }, (_, byte) => {
+    let crc = byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    return crc;
+  });
+};
+
+const CRC8_TABLE = makeTable(0x07, 8);
+const CRC16_TABLE = makeTable(0x8005, 16);
+
+const crc8 = (bytes: Uint8Array) => bytes.reduce((crc, byte) => CRC8_TABLE[crc ^ byte], 0);
+
+const crc16 = (bytes: Uint8Array) =>
+  bytes.reduce((crc, byte) => ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ byte]) & 0xffff, 0);
+
+// =================== BIT WRITER ===================
+
+const createBitWriter = (capacity: number) => {
+  let bytes = new Uint8Array(capacity);
+  let length = 0;
+  let pending = 0; // bits not yet flushed to `bytes`, fewer than 8 between calls
+  let pendingBits = 0;
+
+  const write = (value: number, bits: number) => {
+    if (bits > 24) {
+      write(Math.floor(value / 0x10000), bits - 16);
+      write(value & 0xffff, 16);
+      return;
+    }
+    if (length + 4 > bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    pending = (pending << bits) | (value & ((1 << bits) - 1));
+    pendingBits += bits;
+    while (pendingBits >= 8) {
+      pendingBits -= 8;
+      bytes[length++] = (pending >>> pendingBits) & 0xff;
+    }
+    pending &= (1 << pendingBits) - 1;
+  };
+
+  const writeUnary = (zeros: number) => {
+    for (; zeros >= 24; zeros -= 24) write(0, 24);
+    write(1, zeros + 1);
+  };
+
+  // Frame numbers use the UTF-8 style variable-length coding.
+  const writeUtf8 = (value: number) => {
+    if (value < 0x80) {
+      write(value, 8);
+      return;
+    }
+    let count = 2;
+    while (value >= 2 ** (5 * count + 1)) count++;
+    write(((0xff << (8 - count)) & 0xff) | Math.floor(value / 2 ** (6 * (count - 1))), 8);
+    for (let i = count - 2; i >= 0; i--) write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  };
+
+  return {
+    write,
+    writeUnary,
+    writeUtf8,
+    alignToByte: () => {
+      if (pendingBits > 0) write(0, 8 - pendingBits);
+    },
+    bytes: () => bytes.subarray(0, length),
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// =================== SUBFRAMES ===================
+
+const fixedResidual = (samples: Int32Array, order: number, i: number) => {
+  switch (order) {
+    case 0:
+      return samples[i];
+    case 1:
+      return samples[i] - samples[i - 1];
+    case 2:
+      return samples[i] - 2 * samples[i - 1] + samples[i - 2];
+    case 3:
+      return samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+    default:
+      return samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4];
+  }
+};
+
+// Zigzag-folds a signed residual so small magnitudes get short codes.
+const fold = (residual: number) => (residual >= 0 ? residual * 2 : -residual * 2 - 1);
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, depth: FlacDepth) => {
+  const size = samples.length;
+
+  if (samples.every((sample) => sample === samples[0])) {
+    writer.write(0b00000000, 8);
+    writer.write(samples[0], depth);
+    return;
+  }
+
+  const verbatim = () => {
+    writer.write(0b00000010, 8);
+    samples.forEach((sample) => writer.write(sample, depth));
+  };
+  if (size <= MAX_FIXED_ORDER) return verbatim();
+
+  // Pick the predictor whose residual has the smallest total magnitude.
+  const totals = new Array<number>(MAX_FIXED_ORDER + 1).fill(0);
+  for (let i = MAX_FIXED_ORDER; i < size; i++) {
+    for (let order = 0; order <= MAX_FIXED_ORDER; order++) totals[order] += Math.abs(fixedResidual(samples, order, i));
+  }
+  const order = totals.indexOf(Math.min(...totals));
+
+  const folded = new Float64Array(size - order);
+  let sum = 0;
+  for (let i = order; i < size; i++) {
+    folded[i - order] = fold(fixedResidual(samples, order, i));
+    sum += folded[i - order];
+  }
+  const mean = sum / folded.length;
+  const parameter = mean >= 1 ? Math.min(30, Math.floor(Math.log2(mean))) : 0;
+  const divisor = 2 ** parameter;
+
+  let cost = 8 + order * depth + 2 + 4 + 5;
+  folded.forEach((value) => (cost += Math.floor(value / divisor) + 1 + parameter));
+  if (cost >= 8 + size * depth) return verbatim();
+
+  writer.write(0b00010000 | (order << 1), 8);
+  for (let i = 0; i < order; i++) writer.write(samples[i], depth);
+
+  // Method 0 carries 4-bit Rice parameters (up to 14); method 1 carries 5-bit ones.
+  const wide = parameter > 14;
+  writer.write(wide ? 1 : 0, 2);
+  writer.write(0, 4); // partition order 0: one partition for the whole block
+  writer.write(parameter, wide ? 5 : 4);
+  folded.forEach((value) => {
+    writer.writeUnary(Math.floor(value / divisor));
+    if (parameter > 0) writer.write(value % divisor, parameter);
+  });
+};
+
+// =================== STREAM ===================
+
+const toIntegers = (channel: Float32Array, start: number, size: number, depth: FlacDepth) => {
+  const scale = 2 ** (depth - 1);
+  const samples = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    const value = Math.max(-1, Math.min(1, channel[start + i]));
+    samples[i] = Math.round(value < 0 ? value * scale : value * (scale - 1));
+  }
+  return samples;
+};
+
+const encodeFrame = (buffer: AudioBuffer, index: number, depth: FlacDepth) => {
+  const start = index * BLOCK_SIZE;
+  const size = Math.min(BLOCK_SIZE, buffer.length - start);
+  const channels = buffer.numberOfChannels;
+  const writer = createBitWriter(size * channels * 4 + 64);
+
+  writer.write(0b11111111111110, 14);
+  writer.write(0, 1); // reserved
+  writer.write(0, 1); // fixed block size, so the header carries a frame number
+  writer.write(size === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+  writer.write(SAMPLE_RATE_CODES[buffer.sampleRate] ?? 0, 4);
+  writer.write(channels - 1, 4);
+  writer.write(SAMPLE_SIZE_CODES[depth], 3);
+  writer.write(0, 1); // reserved
+  writer.writeUtf8(index);
+  if (size !== BLOCK_SIZE) writer.write(size - 1, 16);
+  writer.write(crc8(writer.bytes()), 8);
+
+  for (let c = 0; c < channels; c++) {
+    writeSubframe(writer, toIntegers(buffer.getChannelData(c), start, size, depth), depth);
+  }
+  writer.alignToByte();
+  writer.write(crc16(writer.bytes()), 16);
+  return writer.bytes().slice();
+};
+
+export const encodeFlac = (buffer: AudioBuffer, depth: FlacDepth = 16): Blob => {
+  const frames = Array.from({ length: Math.ceil(buffer.length / BLOCK_SIZE) }, (_, index) =>
+    encodeFrame(buffer, index, depth)
+  );
+  const frameSizes = frames.map((frame) => frame.length);
+
+  const header = createBitWriter(42);
+  [0x66, 0x4c, 0x61, 0x43].forEach((byte) => header.write(byte, 8)); // "fLaC"
+  header.write(1, 1); // last metadata block
+  header.write(0, 7); // STREAMINFO
+  header.write(34, 24);
+  header.write(BLOCK_SIZE, 16);
+  header.write(BLOCK_SIZE, 16);
+  header.write(frames.length > 0 ? Math.min(...frameSizes) : 0, 24);
+  header.write(frames.length > 0 ? Math.max(...frameSizes) : 0, 24);
+  header.write(buffer.sampleRate, 20);
+  header.write(buffer.numberOfChannels - 1, 3);
+  header.write(depth - 1, 5);
+  header.write(Math.floor(buffer.length / 2 ** 32), 4);
+  header.write(buffer.length % 2 ** 32, 32);
+  for (let i = 0; i < 16; i++) header.write(0, 8); // MD5 unknown
+
+  return new Blob([header.bytes(), ...frames], { type: "audio/flac" });
+};
@@ -0,0 +1,190 @@
+// =================== TYPES ===================
+
+export interface Levels {
+  peak: number; // linear, 0..1+
+  rms: number;
+}
+
+export interface Loudness {
+  momentary: number; // LUFS over the last 400 ms
+  shortTerm: number; // LUFS over the last 3 s
+  integrated: number; // gated LUFS since the last reset
+}
+
+export interface LoudnessMeter {
+  read: () => Loudness;
+  reset: () => void;
+  disconnect: () => void;
+}
+
+export const METER_FLOOR_DB = -60;
+
+export const toDb = (value: number) => (value > 1e-6 ? 20 * Math.log10(value) : -Infinity);
+
+// Position of a dB value on a meter that spans METER_FLOOR_DB..0 dB.
+export const meterFraction = (db: number) => Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+// =================== FRAME LOOP ===================
+
+// One requestAnimationFrame loop shared by every meter, edge and scope so
+// each analyser is read at most once per frame.
+const frameCallbacks = new Set<(time: number) => void>();
+let frameId = 0;
+let frameCount = 0;
+
+const runFrame = (time: number) => {
+  frameCount++;
+  frameCallbacks.forEach((callback) => callback(time));
+  frameId = frameCallbacks.size > 0 ? requestAnimationFrame(runFrame) : 0;
+};
+
+export const onAnimationFrame = (callback: (time: number) => void): (() => void) => {
+  frameCallbacks.add(callback);
+  if (!frameId) frameId = requestAnimationFrame(runFrame);
+  return () => {
+    frameCallbacks.delete(callback);
+  };
+};
+
+// =================== LEVELS ===================
+
+const levelCache = new WeakMap<AnalyserNode, { frame: number; levels: Levels }>();
+const scratch = new Map<number, Float32Array<ArrayBuffer>>();
+
+const scratchBuffer = (size: number) => {
+  if (!scratch.has(size)) scratch.set(size, new Float32Array(size));
+  return scratch.get(size)!;
+};
+
+export const readLevels = (analyser: AnalyserNode): Levels => {
+  const cached = levelCache.get(analyser);
+  if (cached?.frame === frameCount) return cached.levels;
+
+  const samples = scratchBuffer(analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    sum += value * value;
+  }
+
+  const levels = { peak, rms: Math.sqrt(sum / samples.length) };
+  levelCache.set(analyser, { frame: frameCount, levels });
+  return levels;
+};
+
+// =================== LOUDNESS (BS.1770) ===================
+
+const MOMENTARY_WINDOW = 0.4;
+const SHORT_TERM_BLOCKS = 30; // 3 s of 100 ms steps
+const BLOCK_STEP = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+const energyToLufs = (energy: number) => (energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity);
+
+const meanEnergy = (energies: number[]) =>
+  energies.length > 0 ? energies.reduce((sum, e) => sum + e, 0) / energies.length : 0;
+
+// Gated mean of 400 ms block energies (absolute, then relative gate).
+const gatedLoudness = (blocks: number[]) => {
+  const audible = blocks.filter((e) => energyToLufs(e) > ABSOLUTE_GATE);
+  const gate = energyToLufs(meanEnergy(audible)) + RELATIVE_GATE;
+  return energyToLufs(meanEnergy(audible.filter((e) => energyToLufs(e) > gate)));
+};
+
+// The two biquads approximate the BS.1770 pre-filter and RLB high-pass
+// closely enough for mixing decisions.
+const createKWeighting = (ctx: BaseAudioContext) => {
+  const shelf = ctx.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+  shelf.connect(highpass);
+  return { shelf, highpass };
+};
+
+// K-weighted loudness of `input` (stereo).
+export const createLoudnessMeter = (ctx: BaseAudioContext, input: AudioNode): LoudnessMeter => {
+  const { shelf, highpass } = createKWeighting(ctx);
+  const splitter = ctx.createChannelSplitter(2);
+  const analysers = [ctx.createAnalyser(), ctx.createAnalyser()];
+
+  input.connect(shelf);
+  highpass.connect(splitter);
+  analysers.forEach((analyser, channel) => {
+    analyser.fftSize = 32768; // must hold the 400 ms momentary window
+    splitter.connect(analyser, channel);
+  });
+
+  const windowSamples = Math.min(32768, Math.round(ctx.sampleRate * MOMENTARY_WINDOW));
+  let blocks: number[] = []; // momentary energies, one per BLOCK_STEP
+  let lastBlockTime = 0;
+
+  const momentaryEnergy = () =>
+    analysers.reduce((sum, analyser) => {
+      const samples = scratchBuffer(analyser.fftSize);
+      analyser.getFloatTimeDomainData(samples);
+      let square = 0;
+      for (let i = samples.length - windowSamples; i < samples.length; i++) square += samples[i] * samples[i];
+      return sum + square / windowSamples;
+    }, 0);
+
+  return {
+    read: () => {
+      const energy = momentaryEnergy();
+      if (ctx.currentTime - lastBlockTime >= BLOCK_STEP) {
+        lastBlockTime = ctx.currentTime;
+        blocks.push(energy);
+      }
+      return {
+        momentary: energyToLufs(energy),
+        shortTerm: energyToLufs(meanEnergy(blocks.slice(-SHORT_TERM_BLOCKS))),
+        integrated: gatedLoudness(blocks),
+      };
+    },
+    reset: () => {
+      blocks = [];
+    },
+    disconnect: () => {
+      input.disconnect(shelf);
+      shelf.disconnect();
+      highpass.disconnect();
+      splitter.disconnect();
+    },
+  };
+};
+
+// Integrated loudness (LUFS) of a whole buffer, rendered offline through the
+// same K-weighting as the live meter. -Infinity for silence.
+export const measureLoudness = async (buffer: AudioBuffer): Promise<number> => {
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const { shelf, highpass } = createKWeighting(ctx);
+  source.connect(shelf);
+  highpass.connect(ctx.destination);
+  source.start();
+  const weighted = await ctx.startRendering();
+
+  const channels = Array.from({ length: weighted.numberOfChannels }, (_, c) => weighted.getChannelData(c));
+  const windowSamples = Math.round(weighted.sampleRate * MOMENTARY_WINDOW);
+  const stepSamples = Math.round(weighted.sampleRate * BLOCK_STEP);
+  const blocks: number[] = [];
+  for (let start = 0; start + windowSamples <= weighted.length; start += stepSamples) {
+    blocks.push(
+      channels.reduce((sum, samples) => {
+        let square = 0;
+        for (let i = start; i < start + windowSamples; i++) square += samples[i] * samples[i];
+        return sum + square / windowSamples;
+      }, 0)
+    );
+  }
+  return gatedLoudness(blocks);
+};
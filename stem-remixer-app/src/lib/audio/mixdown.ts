@@ -0,0 +1,63 @@
+// =================== MIXDOWN ===================
+
+export const MIXDOWN_SAMPLE_RATE = 44100;
+
+export interface MixdownTrack {
+  buffer: AudioBuffer;
+  gain?: number;
+  pan?: number;
+  offset?: number; // seconds of silence before the track starts
+}
+
+// Sums every track into a stereo buffer at a shared sample rate. The offline
+// context resamples sources that were decoded at a different rate.
+export const mixdownTracks = async (
+  tracks: MixdownTrack[],
+  sampleRate = MIXDOWN_SAMPLE_RATE
+): Promise<AudioBuffer> => {
+  if (tracks.length === 0) throw new Error("Nothing to mix down.");
+
+  const duration = Math.max(...tracks.map((t) => (t.offset ?? 0) + t.buffer.duration));
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+
+  tracks.forEach((track) => {
+    const source = ctx.createBufferSource();
+    source.buffer = track.buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = track.gain ?? 1;
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = track.pan ?? 0;
+    source.connect(gain).connect(panner).connect(ctx.destination);
+    source.start(track.offset ?? 0);
+  });
+
+  const mixed = await ctx.startRendering();
+  preventClipping(mixed);
+  return mixed;
+};
+
+// Scales the whole mix down if the summed stems peak above full scale.
+const preventClipping = (buffer: AudioBuffer) => {
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+  }
+  if (peak <= 1) return;
+
+  const scale = 0.99 / peak;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= scale;
+    }
+  }
+};
+
+// Sums the inputs feeding a transform node; a single input passes through untouched.
+export const combineInputs = (buffers: AudioBuffer[]): Promise<AudioBuffer> =>
+  buffers.length === 1
+    ? Promise.resolve(buffers[0])
+    : mixdownTracks(buffers.map((buffer) => ({ buffer })), buffers[0].sampleRate);
@@ -0,0 +1,34 @@
+// =================== TYPES ===================
+
+export interface ChannelSettings {
+  gain: number; // linear, 0..MAX_GAIN
+  pan: number; // -1 (left) .. 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export const MAX_GAIN = 1.5;
+
+export const DEFAULT_CHANNEL: ChannelSettings = {
+  gain: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+};
+
+// =================== SOLO / MUTE RULES ===================
+
+// Console rules: mute always wins, and once any channel is soloed only the
+// soloed channels stay audible.
+export const isChannelAudible = (id: string, channels: Record<string, ChannelSettings>): boolean => {
+  const channel = channels[id] ?? DEFAULT_CHANNEL;
+  if (channel.mute) return false;
+  const anySolo = Object.values(channels).some((c) => c.solo);
+  return !anySolo || channel.solo;
+};
+
+export const effectiveGain = (id: string, channels: Record<string, ChannelSettings>): number =>
+  isChannelAudible(id, channels) ? (channels[id] ?? DEFAULT_CHANNEL).gain : 0;
+
+export const gainToDb = (gain: number): string =>
+  gain <= 0.0001 ? "-∞ dB" : `${(20 * Math.log10(gain)).toFixed(1)} dB`;
@@ -0,0 +1,212 @@
+// =================== OPUS ENCODING ===================
+
+// Lossy export: the browser's WebCodecs Opus encoder produces the packets and
+// they are muxed into an Ogg stream here. Opus always runs at 48 kHz, so the
+// buffer is resampled first; the original rate is recorded in the header.
+
+const OPUS_RATE = 48000;
+const CHUNK_FRAMES = OPUS_RATE; // one second of audio per AudioData
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead at 48 kHz
+const MAX_PACKETS_PER_PAGE = 50; // about a second of 20 ms packets
+
+export const DEFAULT_OPUS_BITRATE = 160_000;
+
+interface OpusPacket {
+  data: Uint8Array;
+  samples: number;
+}
+
+// =================== OGG ===================
+
+const OGG_CRC_TABLE = Uint32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+const oggCrc = (bytes: Uint8Array) =>
+  bytes.reduce((crc, byte) => ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0, 0);
+
+const PAGE_FIRST = 0x02;
+const PAGE_LAST = 0x04;
+
+const oggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number) => {
+  const lacing: number[] = [];
+  packets.forEach((packet) => {
+    let remaining = packet.length;
+    for (; remaining >= 255; remaining -= 255) lacing.push(255);
+    lacing.push(remaining);
+  });
+
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = flags;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  packets.forEach((packet) => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const segmentCount = (packet: Uint8Array) => Math.floor(packet.length / 255) + 1;
+
+// =================== HEADERS ===================
+
+const opusHead = (channels: number, preSkip: number, inputRate: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputRate, true);
+  // Output gain and channel mapping family stay 0.
+  return head;
+};
+
+const opusTags = (title?: string) => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode("stem-remixer");
+  const comments = title ? [encoder.encode(`TITLE=${title}`)] : [];
+  const size = 8 + 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const tags = new Uint8Array(size);
+  const view = new DataView(tags.buffer);
+  tags.set(encoder.encode("OpusTags"));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  let offset = 12 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  comments.forEach((comment) => {
+    view.setUint32(offset, comment.length, true);
+    tags.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  });
+  return tags;
+};
+
+// The encoder reports its real lookahead in the OpusHead-shaped description
+// of its first chunk, when it provides one.
+const readPreSkip = (description: BufferSource | undefined) => {
+  if (!description) return undefined;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== "OpusHead") return undefined;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+// =================== ENCODER ===================
+
+const resample = async (buffer: AudioBuffer, channels: number) => {
+  if (buffer.sampleRate === OPUS_RATE && buffer.numberOfChannels === channels) return buffer;
+  const length = Math.max(1, Math.ceil((buffer.length * OPUS_RATE) / buffer.sampleRate));
+  const ctx = new OfflineAudioContext(channels, length, OPUS_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+const opusConfig = (channels: number, bitrate: number): AudioEncoderConfig => ({
+  codec: "opus",
+  sampleRate: OPUS_RATE,
+  numberOfChannels: channels,
+  bitrate,
+});
+
+export const isOpusSupported = async (): Promise<boolean> => {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    return (await AudioEncoder.isConfigSupported(opusConfig(2, DEFAULT_OPUS_BITRATE))).supported === true;
+  } catch {
+    return false;
+  }
+};
+
+// Encodes an AudioBuffer as Ogg Opus (mono or stereo).
+export const encodeOpus = async (
+  buffer: AudioBuffer,
+  options: { bitrate?: number; title?: string } = {}
+): Promise<Blob> => {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const config = opusConfig(channels, options.bitrate ?? DEFAULT_OPUS_BITRATE);
+  if (typeof AudioEncoder === "undefined" || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new Error("This browser can't encode Opus. Choose WAV or FLAC instead.");
+  }
+
+  const audio = await resample(buffer, channels);
+  const packets: OpusPacket[] = [];
+  const errors: Error[] = [];
+  let preSkip: number | undefined;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      preSkip ??= readPreSkip(metadata?.decoderConfig?.description);
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_RATE) / 1_000_000) });
+    },
+    error: (error) => errors.push(error),
+  });
+  encoder.configure(config);
+
+  for (let start = 0; start < audio.length; start += CHUNK_FRAMES) {
+    const frames = Math.min(CHUNK_FRAMES, audio.length - start);
+    const planar = new Float32Array(frames * channels);
+    for (let c = 0; c < channels; c++) planar.set(audio.getChannelData(c).subarray(start, start + frames), c * frames);
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: OPUS_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((start * 1_000_000) / OPUS_RATE),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (errors.length > 0) throw errors[0];
+
+  // Ogg stream: the two header pages, then the audio packets grouped into pages.
+  // The last page's granule trims the encoder's end padding.
+  const skip = preSkip ?? DEFAULT_PRE_SKIP;
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages = [
+    oggPage([opusHead(channels, skip, buffer.sampleRate)], 0, serial, 0, PAGE_FIRST),
+    oggPage([opusTags(options.title)], 0, serial, 1, 0),
+  ];
+
+  let granule = skip;
+  let page: Uint8Array[] = [];
+  let segments = 0;
+  packets.forEach((packet, index) => {
+    page.push(packet.data);
+    segments += segmentCount(packet.data);
+    granule += packet.samples;
+
+    const last = index === packets.length - 1;
+    const next = packets[index + 1];
+    if (!last && page.length < MAX_PACKETS_PER_PAGE && segments + segmentCount(next.data) <= 255) return;
+    const pageGranule = last ? Math.min(granule, skip + audio.length) : granule;
+    pages.push(oggPage(page, pageGranule, serial, pages.length, last ? PAGE_LAST : 0));
+    page = [];
+    segments = 0;
+  });
+
+  return new Blob(pages, { type: "audio/ogg" });
+};
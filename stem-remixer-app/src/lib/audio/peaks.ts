@@ -0,0 +1,20 @@
+// =================== WAVEFORM PEAKS ===================
+
+// Reduces a decoded buffer to per-bucket absolute peaks so the waveform
+// renderer doesn't need to fetch and decode the audio a second time.
+export const computePeaks = (buffer: AudioBuffer, buckets = 4000): Float32Array => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / buckets));
+  const peaks = new Float32Array(Math.ceil(data.length / size));
+
+  for (let b = 0; b < peaks.length; b++) {
+    let max = 0;
+    const end = Math.min(data.length, (b + 1) * size);
+    for (let i = b * size; i < end; i++) {
+      const value = Math.abs(data[i]);
+      if (value > max) max = value;
+    }
+    peaks[b] = max;
+  }
+  return peaks;
+};
@@ -0,0 +1,78 @@
+import { EffectParams, EffectType, isEffectType } from "./effects";
+
+// =================== TYPES ===================
+
+export interface EffectPreset {
+  name: string;
+  effect: EffectType;
+  params: EffectParams;
+}
+
+// Presets live in localStorage rather than the project so they carry over
+// between projects.
+const STORAGE_KEY = "stem-remixer:effect-presets";
+
+// =================== STORE ===================
+
+const listeners = new Set<() => void>();
+let presets: EffectPreset[] | null = null;
+
+const isPreset = (value: unknown): value is EffectPreset => {
+  const preset = value as EffectPreset;
+  return (
+    typeof preset?.name === "string" &&
+    typeof preset.effect === "string" &&
+    isEffectType(preset.effect) &&
+    typeof preset.params === "object"
+  );
+};
+
+const load = (): EffectPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isPreset) : [];
+  } catch (err) {
+    console.warn("Ignoring unreadable effect presets:", err);
+    return [];
+  }
+};
+
+const commit = (next: EffectPreset[]) => {
+  presets = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error("Saving effect presets failed:", err);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const getPresets = (): EffectPreset[] => {
+  if (!presets) presets = load();
+  return presets;
+};
+
+// Saving under an existing name for the same effect overwrites it.
+export const savePreset = (preset: EffectPreset) =>
+  commit([
+    ...getPresets().filter((p) => p.effect !== preset.effect || p.name !== preset.name),
+    preset,
+  ]);
+
+export const deletePreset = (effect: EffectType, name: string) =>
+  commit(getPresets().filter((p) => p.effect !== effect || p.name !== name));
+
+export const subscribePresets = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  // Pick up presets saved from another tab.
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    presets = load();
+    listener();
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
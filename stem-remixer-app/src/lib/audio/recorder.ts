@@ -0,0 +1,213 @@
+import { getAudioContext } from "./context";
+
+// =================== TYPES ===================
+
+export interface RecordedTake {
+  buffer: AudioBuffer;
+  // Context time at which the first recorded sample reached the input.
+  startTime: number;
+  // Estimated round trip (seconds) from the transport scheduling a sound to the
+  // performance played along with it arriving at the input.
+  latency: number;
+}
+
+export interface RecordingSession {
+  analyser: AnalyserNode; // live input level, for meters
+  stop: () => Promise<RecordedTake>;
+  cancel: () => void;
+}
+
+// Frames per message from the capture worklet, so the main thread handles a
+// few dozen messages a second rather than one per 128-frame render quantum.
+const CAPTURE_BLOCK_FRAMES = 4096;
+
+// Voice-call processing smears instruments and rides the level, so ask for the raw input.
+const MUSIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+// Output latency is what the performer hears late; input latency is how late
+// their playing arrives. Chrome reports the latter on the track settings.
+const estimateLatency = (ctx: AudioContext, settings: MediaTrackSettings) => {
+  const inputLatency = (settings as MediaTrackSettings & { latency?: number }).latency ?? 0;
+  return ctx.baseLatency + (ctx.outputLatency || 0) + inputLatency;
+};
+
+// =================== CAPTURE WORKLET ===================
+
+const CAPTURE_PROCESSOR = "stem-remixer-capture";
+
+// Copies its input off the audio thread in batches. Runs in the worklet
+// scope, so it is plain JavaScript loaded from a blob URL.
+const CAPTURE_PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channels = options.processorOptions.channels;
+    this.blockFrames = options.processorOptions.blockFrames;
+    this.blocks = [];
+    this.frames = 0;
+    this.startFrame = null;
+    this.running = true;
+    // Any message means stop: send what is left, then confirm.
+    this.port.onmessage = () => {
+      this.flush();
+      this.running = false;
+      this.port.postMessage({ done: true });
+    };
+  }
+
+  flush() {
+    if (this.frames === 0) return;
+    const chunk = [];
+    for (let c = 0; c < this.channels; c++) {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      for (const block of this.blocks) {
+        data.set(block[c], offset);
+        offset += block[c].length;
+      }
+      chunk.push(data);
+    }
+    this.port.postMessage({ chunk, startFrame: this.startFrame }, chunk.map((data) => data.buffer));
+    this.blocks = [];
+    this.frames = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (this.running && input.length > 0) {
+      if (this.startFrame === null) this.startFrame = currentFrame;
+      const block = [];
+      for (let c = 0; c < this.channels; c++) block.push((input[c] || input[0]).slice());
+      this.blocks.push(block);
+      this.frames += input[0].length;
+      if (this.frames >= this.blockFrames) this.flush();
+    }
+    return this.running;
+  }
+}
+registerProcessor("${CAPTURE_PROCESSOR}", CaptureProcessor);
+`;
+
+let captureModule: Promise<void> | null = null;
+
+const loadCaptureProcessor = (ctx: AudioContext) => {
+  if (!captureModule) {
+    const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: "text/javascript" }));
+    captureModule = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    captureModule.catch(() => (captureModule = null)); // let the next take try again
+  }
+  return captureModule;
+};
+
+interface CaptureMessage {
+  chunk?: Float32Array[];
+  startFrame?: number;
+  done?: boolean;
+}
+
+// =================== RECORDING ===================
+
+let activeSession: RecordingSession | null = null;
+
+// The microphone take in progress, if any; there is only ever one input open.
+export const getActiveRecording = () => activeSession;
+
+export const startRecording = async (): Promise<RecordingSession> => {
+  if (activeSession) throw new Error("A take is already being recorded.");
+  const ctx = getAudioContext();
+  await ctx.resume();
+  await loadCaptureProcessor(ctx);
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: MUSIC_CONSTRAINTS });
+  const settings = stream.getAudioTracks()[0].getSettings();
+  const channels = Math.min(2, settings.channelCount ?? 1);
+
+  const input = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  const processor = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: channels,
+    channelCountMode: "explicit",
+    processorOptions: { channels, blockFrames: CAPTURE_BLOCK_FRAMES },
+  });
+  // Connected to the output so the graph keeps pulling it; the processor
+  // writes nothing and the sink is muted, so the input is never monitored
+  // through the speakers (and fed back into the mic).
+  const sink = ctx.createGain();
+  sink.gain.value = 0;
+  input.connect(analyser);
+  input.connect(processor).connect(sink).connect(ctx.destination);
+
+  const chunks: Float32Array[][] = [];
+  let startTime: number | null = null;
+  let finished: () => void = () => {};
+  processor.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+    const { chunk, startFrame, done } = event.data;
+    if (done) return finished();
+    if (!chunk || startFrame === undefined) return;
+    startTime ??= startFrame / ctx.sampleRate;
+    chunks.push(chunk);
+  };
+
+  const release = () => {
+    processor.port.onmessage = null;
+    processor.port.close();
+    input.disconnect();
+    processor.disconnect();
+    sink.disconnect();
+    stream.getTracks().forEach((track) => track.stop());
+    activeSession = null;
+  };
+
+  const stop = async (): Promise<RecordedTake> => {
+    // The worklet still holds the last partial batch.
+    await new Promise<void>((resolve) => {
+      finished = resolve;
+      processor.port.postMessage("stop");
+    });
+    release();
+    const length = chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    if (length === 0 || startTime === null) throw new Error("Nothing was recorded.");
+
+    const buffer = new AudioBuffer({ length, numberOfChannels: channels, sampleRate: ctx.sampleRate });
+    for (let c = 0; c < channels; c++) {
+      const data = buffer.getChannelData(c);
+      let offset = 0;
+      chunks.forEach((chunk) => {
+        data.set(chunk[c], offset);
+        offset += chunk[c].length;
+      });
+    }
+    return { buffer, startTime, latency: estimateLatency(ctx, settings) };
+  };
+
+  activeSession = { analyser, stop, cancel: release };
+  return activeSession;
+};
+
+// =================== ALIGNMENT ===================
+
+// Places a take on the timeline. `position` is where the transport was when the
+// first sample arrived; moving the take back by `latency` lines the performance
+// up with what was heard. Audio that would land before 0:00 is dropped.
+export const alignTake = (take: RecordedTake, position: number, latency: number) => {
+  const { buffer } = take;
+  const offset = position - latency;
+  if (offset >= 0) return { buffer, offset };
+
+  const skip = Math.min(buffer.length - 1, Math.round(-offset * buffer.sampleRate));
+  const aligned = new AudioBuffer({
+    length: buffer.length - skip,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    aligned.getChannelData(c).set(buffer.getChannelData(c).subarray(skip));
+  }
+  return { buffer: aligned, offset: 0 };
+};
@@ -0,0 +1,115 @@
+// =================== TYPES ===================
+
+export interface MatchAdjustment {
+  tempoRatio: number; // > 1 plays faster (and shorter)
+  semitones: number;
+}
+
+// Everything here works on plain sample arrays (one per channel) so it can
+// run in a worker, where AudioBuffer doesn't exist.
+
+// =================== RESAMPLING ===================
+
+// Linear-interpolation resample: plays `channels` at `rate`, changing pitch and length together.
+const resample = (channels: Float32Array[], rate: number): Float32Array[] =>
+  channels.map((input) => {
+    const length = Math.max(1, Math.round(input.length / rate));
+    const data = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const position = i * rate;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, input.length - 1);
+      const frac = position - index;
+      data[i] = index < input.length ? input[index] * (1 - frac) + input[next] * frac : 0;
+    }
+    return data;
+  });
+
+// =================== TIME STRETCH ===================
+
+// WSOLA: overlap-add Hann-windowed grains, nudging each grain within a small
+// tolerance so it lines up with the waveform of the previous one. Changes
+// length by `stretch` (output / input) while keeping pitch.
+const timeStretch = (channels: Float32Array[], sampleRate: number, stretch: number): Float32Array[] => {
+  const numberOfChannels = channels.length;
+  const inputLength = channels[0]?.length ?? 0;
+  const frameSize = 2 ** Math.round(Math.log2(0.046 * sampleRate)); // ~46 ms
+  const synthesisHop = frameSize / 2;
+  const analysisHop = synthesisHop / stretch;
+  const tolerance = Math.round(0.0125 * sampleRate);
+  const outputLength = Math.max(1, Math.round(inputLength * stretch));
+
+  const mono = new Float32Array(inputLength);
+  channels.forEach((data) => data.forEach((v, i) => (mono[i] += v / numberOfChannels)));
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+
+  const output = Array.from({ length: numberOfChannels }, () => new Float32Array(outputLength + frameSize));
+  const weights = new Float32Array(outputLength + frameSize);
+  const maxStart = Math.max(0, inputLength - frameSize);
+
+  // Cross-correlation against the natural continuation of the previous grain,
+  // sampled sparsely to keep the search affordable on long stems.
+  const similarity = (candidate: number, target: number, stride: number) => {
+    let sum = 0;
+    for (let i = 0; i < frameSize; i += stride) sum += (mono[candidate + i] ?? 0) * (mono[target + i] ?? 0);
+    return sum;
+  };
+  const bestOffset = (nominal: number, target: number, from: number, to: number, step: number) => {
+    let best = Math.min(maxStart, Math.max(0, nominal + from));
+    let bestScore = -Infinity;
+    for (let offset = from; offset <= to; offset += step) {
+      const candidate = Math.min(maxStart, Math.max(0, nominal + offset));
+      const score = similarity(candidate, target, 8);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best - nominal;
+  };
+
+  let previous = 0;
+  for (let out = 0; out < outputLength; out += synthesisHop) {
+    const nominal = Math.min(maxStart, Math.round((out / synthesisHop) * analysisHop));
+    let start = nominal;
+    if (out > 0) {
+      const target = Math.min(maxStart, previous + synthesisHop);
+      const coarse = bestOffset(nominal, target, -tolerance, tolerance, 8);
+      start = nominal + bestOffset(nominal, target, coarse - 8, coarse + 8, 1);
+    }
+
+    for (let i = 0; i < frameSize; i++) {
+      const w = window[i];
+      weights[out + i] += w;
+      for (let c = 0; c < numberOfChannels; c++) output[c][out + i] += (channels[c][start + i] ?? 0) * w;
+    }
+    previous = start;
+  }
+
+  return output.map((summed) => {
+    const data = new Float32Array(outputLength);
+    for (let i = 0; i < outputLength; i++) data[i] = weights[i] > 1e-3 ? summed[i] / weights[i] : summed[i];
+    return data;
+  });
+};
+
+// =================== MATCHING ===================
+
+export const isIdentityMatch = ({ tempoRatio, semitones }: MatchAdjustment) =>
+  Math.abs(tempoRatio - 1) < 1e-3 && semitones === 0;
+
+// Pitch-shifts by resampling, then time-stretches to undo the length change
+// and apply the tempo change in one pass, so the result is the input length
+// divided by `tempoRatio` whatever the pitch shift.
+export const matchChannels = (
+  channels: Float32Array[],
+  sampleRate: number,
+  adjustment: MatchAdjustment
+): Float32Array[] => {
+  if (isIdentityMatch(adjustment)) return channels;
+  const pitchRate = Math.pow(2, adjustment.semitones / 12);
+  const shifted = adjustment.semitones === 0 ? channels : resample(channels, pitchRate);
+  return timeStretch(shifted, sampleRate, pitchRate / adjustment.tempoRatio);
+};
@@ -0,0 +1,307 @@
+import { getAudioContext } from "./context";
+
+// =================== TYPES ===================
+
+export type TransportState = "stopped" | "playing" | "paused";
+
+export interface LoopRegion {
+  start: number; // seconds
+  end: number;
+}
+
+export interface TransportSnapshot {
+  state: TransportState;
+  // Tracks that take part in the current (or paused) playback.
+  activeIds: string[];
+  registeredIds: string[];
+  duration: number;
+  loop: LoopRegion | null;
+}
+
+interface TransportTrack {
+  buffer: AudioBuffer;
+  offset: number; // timeline position (seconds) where the buffer starts
+  gain: GainNode;
+  panner: StereoPannerNode;
+  analyser: AnalyserNode; // post-fader tap for meters
+  // The playing segment plus, while looping, the next pass already scheduled.
+  sources: AudioBufferSourceNode[];
+}
+
+export interface Transport {
+  register: (id: string, buffer: AudioBuffer, offset?: number) => void;
+  unregister: (id: string) => void;
+  setChannel: (id: string, gain: number, pan: number) => void;
+  setOffset: (id: string, offset: number) => void;
+  play: (ids: string[]) => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: LoopRegion | null) => void;
+  getPosition: () => number;
+  // Timeline position playing at context time `time`, ignoring the loop;
+  // negative for times before the current playback started.
+  positionAt: (time: number) => number;
+  getAnalyser: (id: string) => AnalyserNode | undefined;
+  // Sum of every track, just before the speakers; meters can tap it.
+  masterOutput: AudioNode;
+  getSnapshot: () => TransportSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Sources are scheduled slightly ahead so every track starts on the same
+// sample even if the main thread is busy.
+const SCHEDULE_AHEAD = 0.05;
+
+// Each loop pass is queued this long before the previous one ends.
+const LOOP_LOOKAHEAD = 0.2;
+export const MIN_LOOP_LENGTH = 0.25;
+
+// =================== TRANSPORT ===================
+
+const createTransport = (): Transport => {
+  const ctx = getAudioContext();
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  const tracks = new Map<string, TransportTrack>();
+  const listeners = new Set<() => void>();
+
+  let state: TransportState = "stopped";
+  let activeIds: string[] = [];
+  // Context time that corresponds to position 0 while playing.
+  let startedAt = 0;
+  // Position (seconds) while paused or stopped.
+  let heldPosition = 0;
+  let endTimer: ReturnType<typeof setTimeout> | null = null;
+  let loop: LoopRegion | null = null;
+  // Whether the current playback started inside the loop and wraps at its end.
+  let looping = false;
+  let snapshot: TransportSnapshot = { state, activeIds, registeredIds: [], duration: 0, loop };
+
+  const trackEnd = (track?: TransportTrack) => (track ? track.offset + track.buffer.duration : 0);
+
+  const activeDuration = () => Math.max(0, ...activeIds.map((id) => trackEnd(tracks.get(id))));
+
+  const emit = () => {
+    const allDuration = Math.max(0, ...[...tracks.values()].map(trackEnd));
+    snapshot = {
+      state,
+      activeIds,
+      registeredIds: [...tracks.keys()],
+      duration: activeIds.length > 0 ? activeDuration() : allDuration,
+      loop,
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  const getPosition = () => {
+    if (state !== "playing") return heldPosition;
+    const elapsed = Math.max(0, ctx.currentTime - startedAt);
+    if (!looping || !loop || elapsed < loop.end) return elapsed;
+    return loop.start + ((elapsed - loop.end) % (loop.end - loop.start));
+  };
+
+  const stopSources = () => {
+    if (endTimer) clearTimeout(endTimer);
+    endTimer = null;
+    tracks.forEach((track) => {
+      track.sources.forEach((source) => {
+        source.stop();
+        source.disconnect();
+      });
+      track.sources = [];
+    });
+  };
+
+  // Plays the timeline span [from, to) of every active track, starting at context time `when`.
+  const scheduleSegment = (when: number, from: number, to = Infinity) => {
+    activeIds.forEach((id) => {
+      const track = tracks.get(id);
+      if (!track) return;
+      const start = Math.max(from, track.offset);
+      const end = Math.min(to, trackEnd(track));
+      if (end <= start) return;
+      const source = ctx.createBufferSource();
+      source.buffer = track.buffer;
+      source.connect(track.gain);
+      source.start(when + start - from, start - track.offset, end - start);
+      source.onended = () => {
+        track.sources = track.sources.filter((s) => s !== source);
+      };
+      track.sources.push(source);
+    });
+  };
+
+  // Queues the loop pass that starts at context time `at`, then the one after it.
+  const scheduleLoopPass = (at: number) => {
+    if (!loop) return;
+    const { start, end } = loop;
+    endTimer = setTimeout(
+      () => {
+        scheduleSegment(at, start, end);
+        scheduleLoopPass(at + end - start);
+      },
+      Math.max(0, at - ctx.currentTime - LOOP_LOOKAHEAD) * 1000
+    );
+  };
+
+  const startSources = (position: number) => {
+    const when = ctx.currentTime + SCHEDULE_AHEAD;
+    startedAt = when - position;
+    looping = loop !== null && position < loop.end;
+
+    if (loop && looping) {
+      scheduleSegment(when, position, loop.end);
+      scheduleLoopPass(when + loop.end - position);
+      return;
+    }
+
+    scheduleSegment(when, position);
+    const remaining = activeDuration() - position;
+    endTimer = setTimeout(() => stop(), (remaining + SCHEDULE_AHEAD) * 1000);
+  };
+
+  const play = (ids: string[]) => {
+    const playable = ids.filter((id) => tracks.has(id));
+    if (playable.length === 0) return;
+    ctx.resume();
+
+    const position = getPosition();
+    stopSources();
+    activeIds = playable;
+    state = "playing";
+    if (loop && position >= loop.end) {
+      startSources(loop.start);
+    } else {
+      startSources(position >= activeDuration() ? 0 : position);
+    }
+    emit();
+  };
+
+  const pause = () => {
+    if (state !== "playing") return;
+    heldPosition = getPosition();
+    stopSources();
+    state = "paused";
+    emit();
+  };
+
+  const stop = () => {
+    stopSources();
+    heldPosition = 0;
+    activeIds = [];
+    state = "stopped";
+    emit();
+  };
+
+  const seek = (time: number) => {
+    const position = Math.max(0, time);
+    if (state === "playing") {
+      stopSources();
+      startSources(position);
+    } else {
+      heldPosition = position;
+    }
+    emit();
+  };
+
+  // Restarts playback from the current position so timing changes apply immediately.
+  const reschedule = () => {
+    if (state !== "playing") return;
+    const position = getPosition();
+    stopSources();
+    startSources(loop && position >= loop.end ? loop.start : position);
+  };
+
+  const setLoop = (region: LoopRegion | null) => {
+    // Loops shorter than MIN_LOOP_LENGTH are stretched to it rather than dropped.
+    loop = region && { start: region.start, end: Math.max(region.end, region.start + MIN_LOOP_LENGTH) };
+    reschedule();
+    emit();
+  };
+
+  const setOffset = (id: string, offset: number) => {
+    const track = tracks.get(id);
+    if (!track || track.offset === offset) return;
+    track.offset = Math.max(0, offset);
+    if (activeIds.includes(id)) reschedule();
+    emit();
+  };
+
+  const unregister = (id: string) => {
+    const track = tracks.get(id);
+    if (!track) return;
+    track.sources.forEach((source) => source.stop());
+    track.gain.disconnect();
+    track.panner.disconnect();
+    track.analyser.disconnect();
+    tracks.delete(id);
+    activeIds = activeIds.filter((active) => active !== id);
+    if (state !== "stopped" && activeIds.length === 0) {
+      stop();
+      return;
+    }
+    emit();
+  };
+
+  const register = (id: string, buffer: AudioBuffer, offset = 0) => {
+    // Re-registering swaps the audio in place: the channel strip stays and
+    // playback continues from the playhead with the new buffer.
+    const existing = tracks.get(id);
+    if (existing) {
+      existing.buffer = buffer;
+      existing.offset = Math.max(0, offset);
+      if (activeIds.includes(id)) reschedule();
+      emit();
+      return;
+    }
+
+    const gain = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    gain.connect(panner).connect(master);
+    panner.connect(analyser);
+    tracks.set(id, { buffer, offset: Math.max(0, offset), gain, panner, analyser, sources: [] });
+    emit();
+  };
+
+  const setChannel = (id: string, gain: number, pan: number) => {
+    const track = tracks.get(id);
+    if (!track) return;
+    track.gain.gain.setTargetAtTime(gain, ctx.currentTime, 0.01);
+    track.panner.pan.setTargetAtTime(pan, ctx.currentTime, 0.01);
+  };
+
+  return {
+    register,
+    unregister,
+    setChannel,
+    setOffset,
+    play,
+    pause,
+    stop,
+    seek,
+    setLoop,
+    getPosition,
+    positionAt: (time) => (state === "playing" ? time - startedAt : heldPosition),
+    getAnalyser: (id) => tracks.get(id)?.analyser,
+    masterOutput: master,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let sharedTransport: Transport | null = null;
+
+export const getTransport = (): Transport => {
+  if (!sharedTransport) {
+    sharedTransport = createTransport();
+  }
+  return sharedTransport;
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import { Levels, onAnimationFrame, readLevels } from "./metering";
+import { getTransport } from "./transport";
+import { useTransportSnapshot } from "./useTransport";
+
+// =================== REACT BINDINGS ===================
+
+// Feeds `onLevels` the post-fader levels of the first of `ids` that is part of
+// the current playback, once per frame; null while nothing of it is playing.
+// Callers write the result straight to the DOM so nodes don't re-render per frame.
+export const useLevelFollower = (ids: string[], onLevels: (levels: Levels | null) => void) => {
+  const { state, activeIds } = useTransportSnapshot();
+  const callback = useRef(onLevels);
+  callback.current = onLevels;
+  const key = ids.join("|");
+  const playing = state === "playing" && ids.some((id) => activeIds.includes(id));
+
+  useEffect(() => {
+    if (!playing) {
+      callback.current(null);
+      return;
+    }
+    const transport = getTransport();
+    const trackIds = key.split("|");
+    return onAnimationFrame(() => {
+      const id = trackIds.find((trackId) => transport.getSnapshot().activeIds.includes(trackId));
+      const analyser = id ? transport.getAnalyser(id) : undefined;
+      callback.current(analyser ? readLevels(analyser) : null);
+    });
+  }, [key, playing]);
+};
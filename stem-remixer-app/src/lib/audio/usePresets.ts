@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { EffectType } from "./effects";
+import { EffectPreset, getPresets, subscribePresets } from "./presets";
+
+// =================== REACT BINDINGS ===================
+
+const NO_PRESETS: EffectPreset[] = [];
+
+export const useEffectPresets = (effect: EffectType): EffectPreset[] => {
+  const presets = useSyncExternalStore(subscribePresets, getPresets, () => NO_PRESETS);
+  return presets.filter((preset) => preset.effect === effect);
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { getTransport, TransportSnapshot } from "./transport";
+
+// =================== REACT BINDINGS ===================
+
+const SERVER_SNAPSHOT: TransportSnapshot = {
+  state: "stopped",
+  activeIds: [],
+  registeredIds: [],
+  duration: 0,
+  loop: null,
+};
+
+const subscribe = (listener: () => void) => getTransport().subscribe(listener);
+const getSnapshot = () => getTransport().getSnapshot();
+
+export const useTransportSnapshot = (): TransportSnapshot =>
+  useSyncExternalStore(subscribe, getSnapshot, () => SERVER_SNAPSHOT);
+
+// Global playhead in seconds, refreshed every animation frame while playing.
+export const usePlayhead = (): number => {
+  const { state } = useTransportSnapshot();
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    const transport = getTransport();
+    setPosition(transport.getPosition());
+    if (state !== "playing") {
+      return transport.subscribe(() => setPosition(transport.getPosition()));
+    }
+
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(transport.getPosition());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [state]);
+
+  return position;
+};
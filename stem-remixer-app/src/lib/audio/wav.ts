@@ -0,0 +1,60 @@
+// =================== WAV ENCODING ===================
+
+// 16/24-bit integer PCM or 32-bit IEEE float.
+export type WavDepth = 16 | 24 | "32f";
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+const writeSample = (view: DataView, offset: number, value: number, depth: WavDepth) => {
+  if (depth === "32f") {
+    view.setFloat32(offset, value, true);
+    return;
+  }
+  const sample = Math.max(-1, Math.min(1, value));
+  if (depth === 16) {
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    return;
+  }
+  const int = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+  view.setUint8(offset, int & 0xff);
+  view.setUint8(offset + 1, (int >> 8) & 0xff);
+  view.setUint8(offset + 2, (int >> 16) & 0xff);
+};
+
+// Encodes an AudioBuffer as interleaved PCM, 16-bit unless asked otherwise.
+export const encodeWav = (buffer: AudioBuffer, depth: WavDepth = 16): Blob => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = depth === "32f" ? 4 : depth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, depth === "32f" ? 3 : 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      writeSample(view, offset, channelData[c][i], depth);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+};
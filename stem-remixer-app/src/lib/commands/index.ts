@@ -0,0 +1,4 @@
+export * from "./types";
+export { formatShortcut } from "./shortcuts";
+export { searchCommands } from "./search";
+export { useKeyboardShortcuts } from "./useShortcuts";
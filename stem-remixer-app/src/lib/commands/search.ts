@@ -0,0 +1,40 @@
+import { Command } from "./types";
+
+// =================== FUZZY SEARCH ===================
+
+// Scores `query` as a subsequence of `text`; consecutive characters and
+// matches at word starts score higher. Returns -1 when it doesn't match.
+const fuzzyScore = (query: string, text: string): number => {
+  let score = 0;
+  let streak = 0;
+  let from = 0;
+  for (const char of query) {
+    const index = text.indexOf(char, from);
+    if (index < 0) return -1;
+    streak = index === from ? streak + 1 : 1;
+    score += streak + (index === 0 || text[index - 1] === " " ? 3 : 0);
+    from = index + 1;
+  }
+  return score - text.length * 0.01; // prefer shorter titles on ties
+};
+
+// Every whitespace-separated term has to match the title, group or a keyword.
+export const searchCommands = (commands: Command[], query: string): Command[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return commands;
+
+  return commands
+    .map((command) => {
+      const haystacks = [command.title, command.group, ...(command.keywords ?? [])].map((text) => text.toLowerCase());
+      let total = 0;
+      for (const term of terms) {
+        const best = Math.max(...haystacks.map((text) => fuzzyScore(term, text)));
+        if (best < 0) return null;
+        total += best;
+      }
+      return { command, total };
+    })
+    .filter((result): result is { command: Command; total: number } => result !== null)
+    .sort((a, b) => b.total - a.total)
+    .map((result) => result.command);
+};
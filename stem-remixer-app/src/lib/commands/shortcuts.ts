@@ -0,0 +1,58 @@
+import { Shortcut } from "./types";
+
+// =================== MATCHING ===================
+
+const isMac = () => typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Layout-independent name of the pressed key: "1" for the digit row, "space", or the lowercased key.
+const keyName = (event: KeyboardEvent) => {
+  if (event.code.startsWith("Digit")) return event.code.slice(5);
+  if (event.code === "Space") return "space";
+  return event.key.toLowerCase();
+};
+
+export const matchesShortcut = (event: KeyboardEvent, shortcut: Shortcut): boolean => {
+  const parts = shortcut.toLowerCase().split("+");
+  const key = parts.pop();
+  const mod = parts.includes("mod");
+  const wantsMeta = parts.includes("meta") || (mod && isMac());
+  const wantsCtrl = parts.includes("ctrl") || (mod && !isMac());
+  return (
+    key === keyName(event) &&
+    event.metaKey === wantsMeta &&
+    event.ctrlKey === wantsCtrl &&
+    event.shiftKey === parts.includes("shift") &&
+    event.altKey === parts.includes("alt")
+  );
+};
+
+// Typing into a field must never trigger graph or transport shortcuts.
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element?.tagName) return false;
+  return element.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName);
+};
+
+// =================== DISPLAY ===================
+
+const KEY_LABELS: Record<string, string> = {
+  space: "Space",
+  escape: "Esc",
+  delete: "Del",
+  backspace: "⌫",
+  enter: "↵",
+};
+
+export const formatShortcut = (shortcut: Shortcut): string => {
+  const mac = isMac();
+  return shortcut
+    .split("+")
+    .map((part) => {
+      const lower = part.toLowerCase();
+      if (lower === "mod") return mac ? "⌘" : "Ctrl";
+      if (lower === "shift") return mac ? "⇧" : "Shift";
+      if (lower === "alt") return mac ? "⌥" : "Alt";
+      return KEY_LABELS[lower] ?? part.toUpperCase();
+    })
+    .join(mac ? "" : "+");
+};
@@ -0,0 +1,17 @@
+// =================== TYPES ===================
+
+// Shortcuts are written like "mod+z", "shift+1" or "space": modifiers first,
+// then the key. "mod" is Cmd on macOS and Ctrl elsewhere; digits match the
+// physical number row so "shift+1" works on every keyboard layout.
+export type Shortcut = string;
+
+export interface Command {
+  id: string;
+  title: string;
+  group: string;
+  // Extra words the palette search should match, e.g. "export" for "Mix down".
+  keywords?: string[];
+  shortcuts?: Shortcut[];
+  disabled?: boolean;
+  run: () => void;
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+import { isEditableTarget, matchesShortcut } from "./shortcuts";
+import { Command } from "./types";
+
+// =================== REACT BINDINGS ===================
+
+// Runs the first enabled command whose shortcut matches a global keydown.
+// Keys typed into inputs, selects and the palette itself are left alone.
+export const useKeyboardShortcuts = (commands: Command[]) => {
+  const latest = useRef(commands);
+  latest.current = commands;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isEditableTarget(event.target)) return;
+      const command = latest.current.find(
+        (c) => !c.disabled && c.shortcuts?.some((shortcut) => matchesShortcut(event, shortcut))
+      );
+      if (!command) return;
+      event.preventDefault();
+      command.run();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+};
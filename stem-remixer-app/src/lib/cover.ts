@@ -0,0 +1,85 @@
+// =================== TYPES ===================
+
+// One node of a stem's chain: an effect id, "styleTransfer" or "match",
+// exactly as offered by the transform pickers on the canvas.
+export interface CoverStep {
+  transform: string;
+  model?: string; // RAVE model for style transfer steps
+}
+
+export interface CoverStemRecipe {
+  keep: boolean; // whether the stem is part of the finished cover
+  steps: CoverStep[];
+}
+
+// What "song → cover" does to each separated stem before mixing them down.
+export interface CoverRecipe {
+  name: string;
+  stems: Record<string, CoverStemRecipe>;
+}
+
+// =================== PRESETS ===================
+
+export const COVER_PRESETS: CoverRecipe[] = [
+  {
+    name: "Lo-fi bedroom",
+    stems: {
+      Vocals: { keep: true, steps: [{ transform: "vintage" }, { transform: "reverb" }] },
+      Drums: { keep: true, steps: [{ transform: "lofi" }] },
+      Bass: { keep: true, steps: [] },
+      Other: { keep: true, steps: [{ transform: "lofi" }] },
+    },
+  },
+  {
+    name: "Robot pop",
+    stems: {
+      Vocals: { keep: true, steps: [{ transform: "robotic" }, { transform: "reverb" }] },
+      Drums: { keep: true, steps: [] },
+      Bass: { keep: true, steps: [] },
+      Other: { keep: true, steps: [{ transform: "reverb" }] },
+    },
+  },
+  {
+    name: "Neural re-synthesis (RAVE)",
+    stems: {
+      Vocals: { keep: true, steps: [{ transform: "styleTransfer", model: "VCTK" }] },
+      Drums: { keep: true, steps: [{ transform: "styleTransfer", model: "percussion" }] },
+      Bass: { keep: true, steps: [] },
+      Other: { keep: true, steps: [{ transform: "styleTransfer", model: "musicnet" }] },
+    },
+  },
+  {
+    name: "Instrumental",
+    stems: {
+      Vocals: { keep: false, steps: [] },
+    },
+  },
+];
+
+const UNCHANGED: CoverStemRecipe = { keep: true, steps: [] };
+
+// Stems a recipe doesn't mention go into the cover untouched.
+export const stemRecipe = (recipe: CoverRecipe, label: string): CoverStemRecipe => recipe.stems[label] ?? UNCHANGED;
+
+// =================== STORAGE ===================
+
+const STORAGE_KEY = "stem-remixer:cover-recipe";
+
+// The last recipe used, so the next cover starts from it.
+export const loadCoverRecipe = (): CoverRecipe => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as CoverRecipe | null;
+    return stored?.stems ? stored : COVER_PRESETS[0];
+  } catch (err) {
+    console.warn("Ignoring unreadable cover recipe:", err);
+    return COVER_PRESETS[0];
+  }
+};
+
+export const saveCoverRecipe = (recipe: CoverRecipe) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipe));
+  } catch (err) {
+    console.error("Saving the cover recipe failed:", err);
+  }
+};
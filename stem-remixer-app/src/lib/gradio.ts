@@ -0,0 +1,114 @@
+// =================== TYPES ===================
+
+// The subset of @gradio/client this app relies on. The client is loaded
+// from the CDN at runtime, so these types are declared locally.
+export interface GradioFileData {
+  url?: string;
+  path?: string;
+}
+
+export interface GradioStatusMessage {
+  type: "status";
+  stage: "pending" | "generating" | "complete" | "error";
+  queue?: boolean;
+  position?: number;
+  eta?: number;
+  message?: string;
+  broken?: boolean; // set when the connection to the Space dropped
+  progress_data?: { index: number | null; length: number | null; progress: number | null }[];
+}
+
+export interface GradioDataMessage {
+  type: "data";
+  data: unknown[];
+}
+
+export type GradioMessage = GradioStatusMessage | GradioDataMessage | { type: "log" | "render" };
+
+export interface GradioJob extends AsyncIterable<GradioMessage> {
+  cancel: () => Promise<void>;
+}
+
+export interface GradioApp {
+  submit: (endpoint: string, data: unknown[]) => GradioJob;
+}
+
+export interface GradioModule {
+  client: (space: string) => Promise<GradioApp>;
+  handle_file: (file: Blob) => unknown;
+}
+
+// =================== LOADING ===================
+
+const GRADIO_CLIENT_URL = "https://cdn.jsdelivr.net/npm/@gradio/client/dist/index.min.js";
+
+let gradioModule: Promise<GradioModule> | null = null;
+
+export const loadGradioClient = (): Promise<GradioModule> => {
+  if (!gradioModule) {
+    gradioModule = import(/* webpackIgnore: true */ GRADIO_CLIENT_URL) as Promise<GradioModule>;
+    gradioModule.catch(() => {
+      gradioModule = null;
+    });
+  }
+  return gradioModule;
+};
+
+const appCache = new Map<string, Promise<GradioApp>>();
+
+export const connectGradioSpace = async (space: string): Promise<GradioApp> => {
+  const cached = appCache.get(space);
+  if (cached) return cached;
+
+  const pending = loadGradioClient().then((gradio) => gradio.client(space));
+  pending.catch(() => appCache.delete(space));
+  appCache.set(space, pending);
+  return pending;
+};
+
+// =================== JOBS ===================
+
+// A job that failed on the Space. Dropped connections are `transient` and
+// may succeed on a retry; errors raised by the endpoint itself are not.
+export class GradioJobError extends Error {
+  readonly transient: boolean;
+
+  constructor(message: string, transient: boolean) {
+    super(message);
+    this.name = "GradioJobError";
+    this.transient = transient;
+  }
+}
+
+// Runs an endpoint to completion, forwarding status events and honouring
+// cancellation. Resolves with the endpoint's output tuple.
+export const runGradioJob = async (
+  app: GradioApp,
+  endpoint: string,
+  data: unknown[],
+  options: {
+    signal?: AbortSignal;
+    onStatus?: (message: GradioStatusMessage) => void;
+  } = {}
+): Promise<unknown[]> => {
+  const job = app.submit(endpoint, data);
+  const handleAbort = () => job.cancel();
+  options.signal?.addEventListener("abort", handleAbort);
+
+  try {
+    for await (const message of job) {
+      if (options.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      if (message.type === "status") {
+        if (message.stage === "error") {
+          throw new GradioJobError(message.message || "Gradio job failed.", Boolean(message.broken));
+        }
+        options.onStatus?.(message);
+      } else if (message.type === "data") {
+        return message.data;
+      }
+    }
+    throw new GradioJobError("Gradio job ended without output.", true);
+  } finally {
+    options.signal?.removeEventListener("abort", handleAbort);
+  }
+};
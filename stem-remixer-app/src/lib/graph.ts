@@ -0,0 +1,107 @@
+import { Edge, Node } from "reactflow";
+
+// =================== TRAVERSAL ===================
+
+// Walks incoming edges from `nodeId` until it reaches a node of one of
+// `rootTypes`, e.g. the stem a transform chain hangs off.
+export const resolveRootNode = (
+  nodeId: string,
+  nodes: Node[],
+  edges: Edge[],
+  rootTypes: string[]
+): string | undefined => {
+  const visited = new Set<string>();
+  let current: string | undefined = nodeId;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const node = nodes.find((n) => n.id === current);
+    if (node && rootTypes.includes(node.type ?? "")) return node.id;
+    current = edges.find((e) => e.target === current)?.source;
+  }
+  return undefined;
+};
+
+// Every node of `rootTypes` reached by walking all incoming edges from
+// `nodeId`, stopping at each one; e.g. the stems a multi-input transform mixes.
+export const resolveRootNodes = (nodeId: string, nodes: Node[], edges: Edge[], rootTypes: string[]): string[] => {
+  const roots = new Set(nodes.filter((n) => rootTypes.includes(n.type ?? "")).map((n) => n.id));
+  const found = new Set<string>();
+  const visited = new Set<string>();
+  const stack = [nodeId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    if (roots.has(current)) found.add(current);
+    else stack.push(...incomingSources(current, edges));
+  }
+  return [...found];
+};
+
+// =================== DAG HELPERS ===================
+
+// True if adding source -> target would let `target` reach `source`.
+export const wouldCreateCycle = (source: string, target: string, edges: Edge[]): boolean => {
+  if (source === target) return true;
+  const stack = [target];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === source) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    edges.filter((e) => e.source === current).forEach((e) => stack.push(e.target));
+  }
+  return false;
+};
+
+export const incomingSources = (nodeId: string, edges: Edge[]): string[] =>
+  edges.filter((e) => e.target === nodeId).map((e) => e.source);
+
+// Ids from the top of `nodeId`'s chain down to `nodeId` itself. Where a node
+// has several inputs, the first one is followed.
+export const upstreamPath = (nodeId: string, edges: Edge[]): string[] => {
+  const path = [nodeId];
+  let current = incomingSources(nodeId, edges)[0];
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = incomingSources(current, edges)[0];
+  }
+  return path;
+};
+
+// `ids` plus every node that feeds any of them, directly or not.
+export const collectUpstream = (ids: string[], edges: Edge[]): Set<string> => {
+  const collected = new Set<string>();
+  const stack = [...ids];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (collected.has(current)) continue;
+    collected.add(current);
+    stack.push(...incomingSources(current, edges));
+  }
+  return collected;
+};
+
+// Ids of `rootIds` plus every downstream node left without any input once
+// they are gone. Nodes that still have another upstream source survive.
+export const collectOrphanedDownstream = (rootIds: string[], edges: Edge[]): Set<string> => {
+  const removed = new Set(rootIds);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const candidates = new Set(edges.filter((e) => removed.has(e.source)).map((e) => e.target));
+    candidates.forEach((id) => {
+      if (removed.has(id)) return;
+      if (incomingSources(id, edges).every((source) => removed.has(source))) {
+        removed.add(id);
+        changed = true;
+      }
+    });
+  }
+  return removed;
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHistory, History } from "./history";
+
+// Undoes until the history runs out, returning the states in the order they come back.
+const undoAll = (history: History<string>, current: string) => {
+  const states: string[] = [];
+  for (let state = history.undo(current); state !== undefined; state = history.undo(state)) states.push(state);
+  return states;
+};
+
+describe("history", () => {
+  let history: History<string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    history = createHistory<string>();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("undoes and redoes recorded steps", () => {
+    history.record("a");
+    history.record("b");
+    expect(history.getSnapshot()).toEqual({ canUndo: true, canRedo: false });
+    expect(history.undo("c")).toBe("b");
+    expect(history.undo("b")).toBe("a");
+    expect(history.undo("a")).toBeUndefined();
+    expect(history.getSnapshot()).toEqual({ canUndo: false, canRedo: true });
+    expect(history.redo("a")).toBe("b");
+    expect(history.redo("b")).toBe("c");
+    expect(history.redo("c")).toBeUndefined();
+  });
+
+  it("coalesces a gesture into one step while its updates keep arriving", () => {
+    history.record("a", "params:reverb");
+    for (const state of ["b", "c", "d", "e"]) {
+      vi.advanceTimersByTime(900);
+      history.record(state, "params:reverb");
+    }
+    expect(undoAll(history, "f")).toEqual(["a"]);
+  });
+
+  it("starts a new step once a gesture pauses for a second", () => {
+    history.record("a", "params:reverb");
+    vi.advanceTimersByTime(999);
+    history.record("b", "params:reverb");
+    vi.advanceTimersByTime(1000);
+    history.record("c", "params:reverb");
+    expect(undoAll(history, "d")).toEqual(["c", "a"]);
+  });
+
+  it("keeps changes to different targets, and unkeyed changes, apart", () => {
+    history.record("a", "params:reverb");
+    history.record("b", "params:delay");
+    history.record("c");
+    history.record("d");
+    expect(undoAll(history, "e")).toEqual(["d", "c", "b", "a"]);
+  });
+
+  it("doesn't continue a gesture across an undo or redo", () => {
+    history.record("a", "params:reverb");
+    expect(history.undo("b")).toBe("a");
+    history.record("a", "params:reverb");
+    expect(undoAll(history, "c")).toEqual(["a"]);
+
+    expect(history.redo("a")).toBe("c");
+    history.record("c", "params:reverb");
+    expect(undoAll(history, "d")).toEqual(["c", "a"]);
+  });
+
+  it("skips a state identical to the last step", () => {
+    const byValue = createHistory<{ n: number }>((a, b) => a.n === b.n);
+    byValue.record({ n: 1 });
+    byValue.record({ n: 1 });
+    expect(byValue.undo({ n: 2 })).toEqual({ n: 1 });
+    expect(byValue.undo({ n: 1 })).toBeUndefined();
+  });
+
+  it("drops the redo steps when a new change is recorded", () => {
+    history.record("a");
+    history.undo("b");
+    history.record("a");
+    expect(history.getSnapshot().canRedo).toBe(false);
+    expect(history.redo("c")).toBeUndefined();
+  });
+
+  it("finds states in either direction", () => {
+    history.record("blob:old");
+    history.record("b");
+    history.undo("c");
+    expect(history.some((state) => state === "blob:old")).toBe(true);
+    expect(history.some((state) => state === "c")).toBe(true);
+    expect(history.some((state) => state === "blob:new")).toBe(false);
+  });
+
+  it("notifies subscribers until they unsubscribe, and clears everything", () => {
+    const listener = vi.fn();
+    const unsubscribe = history.subscribe(listener);
+    history.record("a");
+    history.clear();
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(history.getSnapshot()).toEqual({ canUndo: false, canRedo: false });
+    unsubscribe();
+    history.record("b");
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
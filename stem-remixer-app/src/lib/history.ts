@@ -0,0 +1,82 @@
+// =================== UNDO / REDO ===================
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface History<T> {
+  // Remember `state` as the step before a change. Records sharing a
+  // `coalesceKey` in quick succession (a drag, a slider) collapse into one step.
+  record: (state: T, coalesceKey?: string) => void;
+  // Return the state to go back (or forward) to; `current` becomes the opposite step.
+  undo: (current: T) => T | undefined;
+  redo: (current: T) => T | undefined;
+  clear: () => void;
+  // Whether any undo or redo step matches, e.g. still needs a resource.
+  some: (predicate: (state: T) => boolean) => boolean;
+  getSnapshot: () => HistoryState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// A gesture counts as continuous while its updates arrive at least this often.
+const COALESCE_WINDOW_MS = 1000;
+
+// History is unbounded: steps hold references to immutable state, so they are cheap.
+export const createHistory = <T>(isSame: (a: T, b: T) => boolean = Object.is): History<T> => {
+  let past: T[] = [];
+  let future: T[] = [];
+  let lastKey: string | undefined;
+  let lastRecordAt = 0;
+  let snapshot: HistoryState = { canUndo: false, canRedo: false };
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    snapshot = { canUndo: past.length > 0, canRedo: future.length > 0 };
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    record: (state, coalesceKey) => {
+      const now = Date.now();
+      const continues = coalesceKey !== undefined && coalesceKey === lastKey && now - lastRecordAt < COALESCE_WINDOW_MS;
+      lastKey = coalesceKey;
+      lastRecordAt = now;
+      // Several checkpoints taken before React applies the first change see the same state.
+      if (continues || (past.length > 0 && isSame(past[past.length - 1], state))) return;
+      past.push(state);
+      future = [];
+      emit();
+    },
+    undo: (current) => {
+      const previous = past.pop();
+      if (previous === undefined) return undefined;
+      future.push(current);
+      lastKey = undefined;
+      emit();
+      return previous;
+    },
+    redo: (current) => {
+      const next = future.pop();
+      if (next === undefined) return undefined;
+      past.push(current);
+      lastKey = undefined;
+      emit();
+      return next;
+    },
+    clear: () => {
+      past = [];
+      future = [];
+      lastKey = undefined;
+      emit();
+    },
+    some: (predicate) => past.some(predicate) || future.some(predicate),
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
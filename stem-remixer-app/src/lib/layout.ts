@@ -0,0 +1,186 @@
+import { Edge, Node, XYPosition } from "reactflow";
+import { incomingSources } from "./graph";
+
+// =================== CONSTANTS ===================
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+const BAND_GAP = 120; // between the nodes of different songs
+
+// Used until React Flow has measured a node.
+const FALLBACK_SIZE = { width: 280, height: 200 };
+
+const sizeOf = (node: Node) => ({
+  width: node.width ?? FALLBACK_SIZE.width,
+  height: node.height ?? FALLBACK_SIZE.height,
+});
+
+// =================== GROUPS ===================
+
+// The root (a node without inputs, such as a song or a recorder) each node
+// hangs off. Nodes fed by several roots, like a mashup's mixdown, map to
+// undefined.
+export const assignRoots = (nodes: Node[], edges: Edge[]): Map<string, string | undefined> => {
+  const inputs = new Map<string, string[]>();
+  edges.forEach((e) => inputs.set(e.target, [...(inputs.get(e.target) ?? []), e.source]));
+
+  // A node's root is the one all its inputs share; resolved once per node,
+  // inputs first, so the whole graph takes a single pass.
+  const owners = new Map<string, string | undefined>();
+  const visiting = new Set<string>();
+  const ownerOf = (id: string): string | undefined => {
+    if (owners.has(id)) return owners.get(id);
+    const sources = inputs.get(id) ?? [];
+    if (sources.length === 0) {
+      owners.set(id, id);
+      return id;
+    }
+    visiting.add(id);
+    const sourceOwners = sources.filter((source) => !visiting.has(source)).map(ownerOf);
+    visiting.delete(id);
+    // Inputs from different roots, or only from a cycle, leave the node unowned.
+    const owner = sourceOwners.length > 0 && sourceOwners.every((o) => o === sourceOwners[0]) ? sourceOwners[0] : undefined;
+    owners.set(id, owner);
+    return owner;
+  };
+  return new Map(nodes.map((n) => [n.id, ownerOf(n.id)]));
+};
+
+// Bounding box of `nodes`, e.g. for drawing a frame around a group.
+export const boundsOf = (nodes: Node[]) => {
+  const boxes = nodes.map((n) => ({ ...n.position, ...sizeOf(n) }));
+  const x = Math.min(...boxes.map((b) => b.x));
+  const y = Math.min(...boxes.map((b) => b.y));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((b) => b.x + b.width)) - x,
+    height: Math.max(...boxes.map((b) => b.y + b.height)) - y,
+  };
+};
+
+// =================== LAYOUT ===================
+
+// Left-to-right layout of a DAG. A node's column is the longest path to it
+// from a root, so every edge points right. Each root and everything that
+// only it feeds form a horizontal band; bands keep their current top-to-bottom
+// order and never overlap, and nodes shared between bands go in a last band.
+// Within a band a node sits level with its inputs where there is room, so
+// chains run straight and a stem's transforms stack below one another.
+export const layoutGraph = (nodes: Node[], edges: Edge[]): Map<string, XYPosition> => {
+  const ids = new Set(nodes.map((n) => n.id));
+  const links = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+
+  const columns = new Map<string, number>();
+  const columnOf = (id: string, visiting = new Set<string>()): number => {
+    const known = columns.get(id);
+    if (known !== undefined) return known;
+    visiting.add(id);
+    const inputs = incomingSources(id, links).filter((source) => !visiting.has(source));
+    const column = inputs.length > 0 ? Math.max(...inputs.map((source) => columnOf(source, visiting) + 1)) : 0;
+    visiting.delete(id);
+    columns.set(id, column);
+    return column;
+  };
+  nodes.forEach((n) => columnOf(n.id));
+
+  const columnCount = Math.max(0, ...columns.values()) + 1;
+  const columnWidths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(0, ...nodes.filter((n) => columns.get(n.id) === column).map((n) => sizeOf(n).width))
+  );
+  const columnX = columnWidths.map((_, column) =>
+    columnWidths.slice(0, column).reduce((x, width) => x + width + COLUMN_GAP, 0)
+  );
+
+  const owners = assignRoots(nodes, links);
+  const bands: (string | undefined)[] = [
+    ...nodes
+      .filter((n) => owners.get(n.id) === n.id)
+      .sort((a, b) => a.position.y - b.position.y)
+      .map((n) => n.id),
+    undefined,
+  ];
+
+  const placed = new Map<string, XYPosition>();
+  const inputLevel = (id: string) => {
+    const ys = incomingSources(id, links).flatMap((source) => placed.get(source)?.y ?? []);
+    return ys.length > 0 ? ys.reduce((sum, y) => sum + y, 0) / ys.length : undefined;
+  };
+
+  let bandTop = 0;
+  bands.forEach((band) => {
+    let bandBottom = bandTop;
+    for (let column = 0; column < columnCount; column++) {
+      const members = nodes
+        .filter((n) => columns.get(n.id) === column && owners.get(n.id) === band)
+        .map((n) => ({ node: n, level: inputLevel(n.id) }))
+        .sort(
+          (a, b) =>
+            (a.level ?? a.node.position.y) - (b.level ?? b.node.position.y) || a.node.position.y - b.node.position.y
+        );
+
+      let nextY = bandTop;
+      members.forEach(({ node, level }) => {
+        const y = Math.max(nextY, level ?? nextY);
+        placed.set(node.id, { x: columnX[column], y });
+        nextY = y + sizeOf(node).height + ROW_GAP;
+      });
+      bandBottom = Math.max(bandBottom, nextY - (members.length > 0 ? ROW_GAP : 0));
+    }
+    if (bandBottom > bandTop) bandTop = bandBottom + BAND_GAP;
+  });
+
+  return placed;
+};
+
+// Positions for the `added` nodes only, so nodes already on the canvas keep
+// where they were put by hand. Each added node goes where the full layout
+// would put it relative to its first input; one without inputs stays put.
+export const placeAddedNodes = (nodes: Node[], edges: Edge[], added: Set<string>): Map<string, XYPosition> => {
+  const layout = layoutGraph(nodes, edges);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const placed = new Map<string, XYPosition>();
+
+  const positionOf = (id: string): XYPosition => {
+    const node = byId.get(id)!;
+    if (!added.has(id)) return node.position;
+    const known = placed.get(id);
+    if (known) return known;
+    placed.set(id, node.position); // stops a cycle from recursing forever
+
+    const parent = incomingSources(id, edges).find((source) => byId.has(source));
+    const own = layout.get(id);
+    const parentLayout = parent && layout.get(parent);
+    if (parent && own && parentLayout) {
+      const parentPosition = positionOf(parent);
+      placed.set(id, { x: own.x + parentPosition.x - parentLayout.x, y: own.y + parentPosition.y - parentLayout.y });
+    }
+    return placed.get(id)!;
+  };
+  added.forEach((id) => {
+    if (byId.has(id)) positionOf(id);
+  });
+  return placed;
+};
+
+// =================== STORAGE ===================
+
+const STORAGE_KEY = "stem-remixer:auto-layout";
+
+// Automatic layout is on unless it was turned off.
+export const loadAutoLayout = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== "off";
+  } catch (err) {
+    console.warn("Ignoring unreadable layout setting:", err);
+    return true;
+  }
+};
+
+export const saveAutoLayout = (enabled: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, enabled ? "on" : "off");
+  } catch (err) {
+    console.error("Saving the layout setting failed:", err);
+  }
+};
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMidiController, parseMidiMessage } from "./controller";
+import { createSimulatedMidiSource, SimulatedMidiSource } from "./sources";
+import { MidiController, MidiMapping, MidiTarget } from "./types";
+
+const DEVICE = "Simulated controller";
+const GAIN: MidiTarget = { kind: "gain", stemId: "stem-drums" };
+const MUTE: MidiTarget = { kind: "mute", stemId: "stem-drums" };
+
+const fader = (input = DEVICE): MidiMapping => ({
+  id: "fader",
+  control: { type: "cc", channel: 1, number: 7, input },
+  target: GAIN,
+});
+
+describe("parseMidiMessage", () => {
+  it("reads control changes with 1-based channels", () => {
+    expect(parseMidiMessage([0xb3, 7, 127], DEVICE)).toEqual({
+      control: { type: "cc", channel: 4, number: 7, input: DEVICE },
+      value: 1,
+    });
+  });
+
+  it("reads notes, with note on at velocity 0 as a release", () => {
+    expect(parseMidiMessage([0x90, 36, 127])?.value).toBe(1);
+    expect(parseMidiMessage([0x90, 36, 0])?.value).toBe(0);
+    expect(parseMidiMessage([0x80, 36, 64])).toEqual({
+      control: { type: "note", channel: 1, number: 36, input: undefined },
+      value: 0,
+    });
+  });
+
+  it("ignores other and truncated messages", () => {
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull(); // pitch bend
+    expect(parseMidiMessage([0xf8])).toBeNull(); // clock
+    expect(parseMidiMessage([0xb0, 7])).toBeNull();
+  });
+});
+
+describe("MIDI controller", () => {
+  let controller: MidiController;
+  let midi: SimulatedMidiSource;
+  let level: number;
+  let applied: { target: MidiTarget; value: number }[];
+
+  beforeEach(async () => {
+    controller = createMidiController();
+    midi = createSimulatedMidiSource(DEVICE);
+    controller.setSource(midi);
+    await controller.enable();
+    level = 0.5;
+    applied = [];
+    controller.bind({
+      read: (target) => (target.kind === "gain" ? level : undefined),
+      apply: (target, value) => {
+        applied.push({ target, value });
+        if (target.kind === "gain") level = value;
+        return value;
+      },
+    });
+  });
+
+  describe("soft takeover", () => {
+    beforeEach(() => controller.setMappings([fader()]));
+
+    it("ignores a fader until it reaches the current value", () => {
+      midi.controlChange(1, 7, 0);
+      midi.controlChange(1, 7, 20);
+      expect(applied).toEqual([]);
+
+      midi.controlChange(1, 7, 64);
+      expect(level).toBeCloseTo(64 / 127);
+      midi.controlChange(1, 7, 90);
+      expect(level).toBeCloseTo(90 / 127);
+    });
+
+    it("picks the value up when the fader jumps across it", () => {
+      midi.controlChange(1, 7, 10);
+      midi.controlChange(1, 7, 100);
+      expect(level).toBeCloseTo(100 / 127);
+    });
+
+    it("lets go when the value is changed elsewhere until the fader reaches it again", () => {
+      midi.controlChange(1, 7, 64);
+      level = 0.9; // moved with the mouse, or undone
+
+      midi.controlChange(1, 7, 70);
+      expect(level).toBe(0.9);
+      expect(applied).toHaveLength(1);
+
+      midi.controlChange(1, 7, 120);
+      expect(level).toBeCloseTo(120 / 127);
+    });
+
+    it("only follows the device the mapping was learned from", () => {
+      controller.setMappings([fader("Other controller")]);
+      midi.controlChange(1, 7, 64);
+      expect(applied).toEqual([]);
+    });
+  });
+
+  it("fires buttons once per press", () => {
+    controller.setMappings([{ id: "pad", control: { type: "note", channel: 10, number: 36, input: DEVICE }, target: MUTE }]);
+    midi.noteOn(10, 36);
+    midi.noteOff(10, 36);
+    midi.noteOn(10, 36, 90);
+    expect(applied).toEqual([
+      { target: MUTE, value: 1 },
+      { target: MUTE, value: 1 },
+    ]);
+  });
+
+  describe("learn", () => {
+    it("binds the next control moved to the target", () => {
+      controller.learn(GAIN);
+      expect(controller.getSnapshot().learning).toEqual(GAIN);
+
+      midi.controlChange(2, 21, 100);
+      const { learning, mappings } = controller.getSnapshot();
+      expect(learning).toBeNull();
+      expect(mappings).toHaveLength(1);
+      expect(mappings[0]).toMatchObject({ control: { type: "cc", channel: 2, number: 21, input: DEVICE }, target: GAIN });
+      expect(applied).toEqual([]);
+    });
+
+    it("binds pads on press, not on release", () => {
+      controller.learn(MUTE);
+      midi.noteOff(10, 36);
+      expect(controller.getSnapshot().mappings).toEqual([]);
+      midi.noteOn(10, 36);
+      expect(controller.getSnapshot().mappings[0].control).toMatchObject({ type: "note", number: 36 });
+    });
+
+    it("replaces the target's previous control and the control's previous target", () => {
+      controller.setMappings([fader(), { ...fader(), id: "other", control: { ...fader().control, number: 8 }, target: MUTE }]);
+      controller.learn(GAIN);
+      midi.controlChange(1, 8, 64);
+      const { mappings } = controller.getSnapshot();
+      expect(mappings).toHaveLength(1);
+      expect(mappings[0]).toMatchObject({ control: { number: 8 }, target: GAIN });
+    });
+
+    it("doesn't jump the target to where the control was when learned", () => {
+      controller.learn(GAIN);
+      midi.controlChange(1, 7, 100);
+      midi.controlChange(1, 7, 101);
+      expect(level).toBe(0.5);
+      midi.controlChange(1, 7, 60);
+      expect(level).toBeCloseTo(60 / 127);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { createWebMidiSource } from "./sources";
+import {
+  MidiBindings,
+  MidiControl,
+  MidiController,
+  MidiMapping,
+  MidiSnapshot,
+  MidiSource,
+  MidiTarget,
+} from "./types";
+
+// =================== MESSAGES ===================
+
+interface MidiEvent {
+  control: MidiControl;
+  value: number; // 0..1
+}
+
+// Control changes and notes; everything else (clock, pitch bend, sysex) is ignored.
+export const parseMidiMessage = (bytes: ArrayLike<number>, input?: string): MidiEvent | null => {
+  if (bytes.length < 3) return null;
+  const status = bytes[0] & 0xf0;
+  const channel = (bytes[0] & 0x0f) + 1;
+  if (status === 0xb0) return { control: { type: "cc", channel, number: bytes[1], input }, value: bytes[2] / 127 };
+  if (status === 0x90 || status === 0x80) {
+    const velocity = status === 0x90 ? bytes[2] : 0; // note on at velocity 0 is a note off
+    return { control: { type: "note", channel, number: bytes[1], input }, value: velocity / 127 };
+  }
+  return null;
+};
+
+// The same knob on two devices sends identical messages, so the device has to
+// match too. Mappings saved without one answer to any device.
+const sameControl = (a: MidiControl, b: MidiControl) =>
+  a.type === b.type &&
+  a.channel === b.channel &&
+  a.number === b.number &&
+  (a.input === undefined || b.input === undefined || a.input === b.input);
+
+export const midiTargetKey = (target: MidiTarget): string =>
+  target.kind === "action"
+    ? `action:${target.action}`
+    : target.kind === "effectParam"
+      ? `param:${target.nodeId}:${target.param}`
+      : `${target.kind}:${target.stemId}`;
+
+export const describeControl = (control: MidiControl): string =>
+  `${control.type === "cc" ? "CC" : "Note"} ${control.number} · ch ${control.channel}`;
+
+const isContinuous = (target: MidiTarget) => target.kind === "gain" || target.kind === "effectParam";
+
+// =================== SOFT TAKEOVER ===================
+
+// How close a fader has to come to the target's value to pick it up.
+const PICKUP_TOLERANCE = 0.03;
+
+interface ControlState {
+  pickedUp: boolean;
+  lastInput?: number; // last position the control reported
+  lastSent?: number; // value it last set, to notice changes made elsewhere
+}
+
+// A fader only takes over once it reaches (or moves across) the target's
+// current value, so a control left in another position doesn't make the
+// level jump. If the value is changed elsewhere afterwards, e.g. with the
+// mouse or undo, the fader has to pick it up again.
+const takeOver = (state: ControlState, input: number, current: number) => {
+  if (state.pickedUp && state.lastSent !== undefined && Math.abs(current - state.lastSent) > PICKUP_TOLERANCE) {
+    state.pickedUp = false;
+  }
+  if (!state.pickedUp) {
+    const crossed = state.lastInput !== undefined && (state.lastInput - current) * (input - current) <= 0;
+    state.pickedUp = crossed || Math.abs(input - current) <= PICKUP_TOLERANCE;
+  }
+  state.lastInput = input;
+  return state.pickedUp;
+};
+
+// =================== CONTROLLER ===================
+
+export const createMidiController = (): MidiController => {
+  const listeners = new Set<() => void>();
+  const controls = new Map<string, ControlState>(); // by mapping id
+  let source: MidiSource | null | undefined; // undefined until the default is looked up
+  let bindings: MidiBindings | null = null;
+  let snapshot: MidiSnapshot = { status: "off", inputs: [], mappings: [], learning: null };
+  let nextId = 1;
+
+  const update = (patch: Partial<MidiSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const currentSource = () => {
+    if (source === undefined) source = createWebMidiSource();
+    return source;
+  };
+
+  const learnFrom = (event: MidiEvent, target: MidiTarget) => {
+    // Pads bind on press, not on release.
+    if (event.control.type === "note" && event.value === 0) return;
+    const key = midiTargetKey(target);
+    const mapping: MidiMapping = { id: `midi-${Date.now()}-${nextId++}`, control: event.control, target };
+    update({
+      learning: null,
+      mappings: [
+        ...snapshot.mappings.filter((m) => !sameControl(m.control, event.control) && midiTargetKey(m.target) !== key),
+        mapping,
+      ],
+    });
+    // The control is where the target should be from now on.
+    controls.set(mapping.id, { pickedUp: false, lastInput: event.value });
+  };
+
+  const handleMessage = (bytes: ArrayLike<number>, input: string) => {
+    const event = parseMidiMessage(bytes, input);
+    if (!event) return;
+    if (snapshot.learning) return learnFrom(event, snapshot.learning);
+    if (!bindings) return;
+
+    snapshot.mappings
+      .filter((mapping) => sameControl(mapping.control, event.control))
+      .forEach((mapping) => {
+        const state = controls.get(mapping.id) ?? { pickedUp: false };
+        controls.set(mapping.id, state);
+
+        if (!isContinuous(mapping.target)) {
+          // Buttons and pads fire when pressed; CC buttons send 127 then 0.
+          const pressed = event.value >= 0.5 && (state.lastInput === undefined || state.lastInput < 0.5);
+          state.lastInput = event.value;
+          if (pressed) bindings?.apply(mapping.target, 1);
+          return;
+        }
+
+        const current = bindings?.read(mapping.target);
+        if (current === undefined || !takeOver(state, event.value, current)) return;
+        const applied = bindings?.apply(mapping.target, event.value);
+        state.lastSent = typeof applied === "number" ? applied : event.value;
+      });
+  };
+
+  const disable = () => {
+    source?.close();
+    update({ status: "off", inputs: [], learning: null });
+  };
+
+  const enable = async () => {
+    const midi = currentSource();
+    if (!midi) return update({ status: "unsupported" });
+    update({ status: "connecting" });
+    try {
+      const inputs = await midi.open(handleMessage, (changed) => update({ inputs: changed }));
+      update({ status: "ready", inputs });
+    } catch (err) {
+      console.warn("MIDI access was refused:", err);
+      update({ status: "denied", inputs: [] });
+    }
+  };
+
+  return {
+    enable,
+    disable,
+    setSource: (next) => {
+      const wasOn = snapshot.status === "ready";
+      disable();
+      source = next;
+      if (wasOn) enable();
+    },
+    learn: (target) => update({ learning: target }),
+    setMappings: (mappings) => {
+      controls.clear();
+      update({ mappings, learning: null });
+    },
+    removeMapping: (id) => {
+      controls.delete(id);
+      update({ mappings: snapshot.mappings.filter((m) => m.id !== id) });
+    },
+    bind: (next) => {
+      bindings = next;
+      return () => {
+        if (bindings === next) bindings = null;
+      };
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let sharedMidiController: MidiController | null = null;
+
+// Lazily created so server rendering never touches navigator.
+export const getMidiController = (): MidiController => {
+  if (!sharedMidiController) {
+    sharedMidiController = createMidiController();
+  }
+  return sharedMidiController;
+};
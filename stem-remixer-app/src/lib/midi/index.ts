@@ -0,0 +1,5 @@
+export * from "./types";
+export { describeControl, getMidiController, midiTargetKey, parseMidiMessage } from "./controller";
+export { createSimulatedMidiSource, createWebMidiSource } from "./sources";
+export type { SimulatedMidiSource } from "./sources";
+export { useMidi } from "./useMidi";
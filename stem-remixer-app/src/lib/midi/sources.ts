@@ -0,0 +1,68 @@
+import { MidiSource } from "./types";
+
+// =================== WEB MIDI ===================
+
+// Every input the browser exposes, including devices plugged in later.
+// Returns null when the browser has no Web MIDI.
+export const createWebMidiSource = (): MidiSource | null => {
+  if (typeof navigator === "undefined" || !("requestMIDIAccess" in navigator)) return null;
+  let access: MIDIAccess | null = null;
+
+  const attach = (onMessage: (bytes: ArrayLike<number>, input: string) => void) => {
+    const names: string[] = [];
+    access?.inputs.forEach((input) => {
+      const name = input.name ?? input.id;
+      names.push(name);
+      input.onmidimessage = (event) => {
+        if (event.data) onMessage(event.data, name);
+      };
+    });
+    return names;
+  };
+
+  return {
+    open: async (onMessage, onInputsChange) => {
+      access = await navigator.requestMIDIAccess();
+      access.onstatechange = () => onInputsChange(attach(onMessage));
+      return attach(onMessage);
+    },
+    close: () => {
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
+      access = null;
+    },
+  };
+};
+
+// =================== SIMULATED ===================
+
+export interface SimulatedMidiSource extends MidiSource {
+  send: (bytes: number[]) => void;
+  controlChange: (channel: number, controller: number, value: number) => void;
+  noteOn: (channel: number, note: number, velocity?: number) => void;
+  noteOff: (channel: number, note: number) => void;
+}
+
+// An input with no hardware behind it: messages go in through `send` or the
+// helpers (channels 1-16, values 0-127), for tests or trying mappings out.
+export const createSimulatedMidiSource = (name = "Simulated controller"): SimulatedMidiSource => {
+  let deliver: ((bytes: ArrayLike<number>, input: string) => void) | null = null;
+  const send = (bytes: number[]) => deliver?.(bytes, name);
+
+  return {
+    open: async (onMessage) => {
+      deliver = onMessage;
+      return [name];
+    },
+    close: () => {
+      deliver = null;
+    },
+    send,
+    controlChange: (channel, controller, value) => send([0xb0 | (channel - 1), controller, value]),
+    noteOn: (channel, note, velocity = 127) => send([0x90 | (channel - 1), note, velocity]),
+    noteOff: (channel, note) => send([0x80 | (channel - 1), note, 0]),
+  };
+};
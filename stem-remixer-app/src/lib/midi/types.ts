@@ -0,0 +1,72 @@
+// =================== TYPES ===================
+
+// A physical control: a knob or fader sending control changes, or a pad or
+// key sending notes. Channels are 1-16 as printed on controllers.
+export interface MidiControl {
+  type: "cc" | "note";
+  channel: number;
+  number: number;
+  input?: string; // device it was learned from; other devices don't drive it
+}
+
+export type MidiAction = "playAll" | "stopAll" | "sync";
+
+// What a control drives. Gain and effect parameters follow the control's
+// position; mute, solo and actions fire once per press.
+export type MidiTarget =
+  | { kind: "gain"; stemId: string }
+  | { kind: "mute"; stemId: string }
+  | { kind: "solo"; stemId: string }
+  | { kind: "effectParam"; nodeId: string; param: string }
+  | { kind: "action"; action: MidiAction };
+
+export interface MidiMapping {
+  id: string;
+  control: MidiControl;
+  target: MidiTarget;
+}
+
+// "off" until the user connects; "unsupported" without Web MIDI; "denied"
+// when the browser refused access.
+export type MidiStatus = "off" | "connecting" | "ready" | "unsupported" | "denied";
+
+export interface MidiSnapshot {
+  status: MidiStatus;
+  inputs: string[];
+  mappings: MidiMapping[];
+  learning: MidiTarget | null; // the next control moved is bound to this
+}
+
+// Where messages come from: the browser's MIDI inputs, or a simulated input
+// that tests and demos drive directly.
+export interface MidiSource {
+  // Starts delivering raw messages; resolves with the connected input names.
+  open: (
+    onMessage: (bytes: ArrayLike<number>, input: string) => void,
+    onInputsChange: (inputs: string[]) => void
+  ) => Promise<string[]>;
+  close: () => void;
+}
+
+// The app side of a mapping, registered with `MidiController.bind`.
+export interface MidiBindings {
+  // Current value of a continuous target as 0..1, used for soft takeover;
+  // undefined once the target no longer exists.
+  read: (target: MidiTarget) => number | undefined;
+  // Continuous targets get the control's position as 0..1 and return the
+  // value actually set (after rounding to the parameter's step); presses get 1.
+  apply: (target: MidiTarget, value: number) => number | void;
+}
+
+export interface MidiController {
+  enable: () => Promise<void>;
+  disable: () => void;
+  // Swaps the message source, e.g. for a simulated input.
+  setSource: (source: MidiSource | null) => void;
+  learn: (target: MidiTarget | null) => void;
+  setMappings: (mappings: MidiMapping[]) => void;
+  removeMapping: (id: string) => void;
+  bind: (bindings: MidiBindings) => () => void;
+  getSnapshot: () => MidiSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
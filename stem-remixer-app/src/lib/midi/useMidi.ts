@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { getMidiController } from "./controller";
+import { MidiSnapshot } from "./types";
+
+// =================== REACT BINDINGS ===================
+
+const SERVER_SNAPSHOT: MidiSnapshot = { status: "off", inputs: [], mappings: [], learning: null };
+
+const subscribe = (listener: () => void) => getMidiController().subscribe(listener);
+const getSnapshot = () => getMidiController().getSnapshot();
+
+export const useMidi = (): MidiSnapshot => useSyncExternalStore(subscribe, getSnapshot, () => SERVER_SNAPSHOT);
@@ -0,0 +1,100 @@
+import { ProjectBundle, ProjectManifest } from "./types";
+
+// =================== INDEXEDDB SESSION STORE ===================
+
+const DB_NAME = "stem-remixer";
+const STORE = "sessions";
+const ASSET_STORE = "assets"; // audio blobs by asset id, written once each
+const SESSION_KEY = "current";
+
+interface StoredSession {
+  manifest: ProjectManifest;
+  assets?: [string, Blob][]; // sessions saved before audio had its own store
+}
+
+// Assets known to be in ASSET_STORE, so saving a change to the graph only
+// writes the manifest.
+const storedAssets = new Set<string>();
+// Manifest of the last save minus its timestamp; unchanged sessions aren't rewritten.
+let lastSaved = "";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 2);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+      if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const manifestKey = (manifest: ProjectManifest) => JSON.stringify({ ...manifest, savedAt: "" });
+
+export const saveSession = async (bundle: ProjectBundle): Promise<void> => {
+  const key = manifestKey(bundle.manifest);
+  if (key === lastSaved) return;
+  const fresh = [...bundle.assets].filter(([id]) => !storedAssets.has(id));
+
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([STORE, ASSET_STORE], "readwrite");
+      const assets = tx.objectStore(ASSET_STORE);
+      fresh.forEach(([id, blob]) => assets.put(blob, id));
+      tx.objectStore(STORE).put({ manifest: bundle.manifest } satisfies StoredSession, SESSION_KEY);
+      // Audio the session no longer uses goes with it.
+      const keys = assets.getAllKeys();
+      keys.onsuccess = () =>
+        keys.result.forEach((id) => {
+          if (bundle.assets.has(String(id))) return;
+          assets.delete(id);
+          storedAssets.delete(String(id));
+        });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+  fresh.forEach(([id]) => storedAssets.add(id));
+  lastSaved = key;
+};
+
+export const loadSession = async (): Promise<ProjectBundle | null> => {
+  const stored = await withStore<StoredSession | undefined>(STORE, "readonly", (store) => store.get(SESSION_KEY));
+  if (!stored) return null;
+  if (stored.assets) return { manifest: stored.manifest, assets: new Map(stored.assets) };
+
+  const ids = await withStore<IDBValidKey[]>(ASSET_STORE, "readonly", (store) => store.getAllKeys());
+  const blobs = await withStore<Blob[]>(ASSET_STORE, "readonly", (store) => store.getAll());
+  const assets = new Map(ids.map((id, i) => [String(id), blobs[i]]));
+  assets.forEach((_, id) => storedAssets.add(id));
+  return { manifest: stored.manifest, assets };
+};
+
+export const clearSession = async (): Promise<void> => {
+  await withStore(STORE, "readwrite", (store) => store.delete(SESSION_KEY));
+  await withStore(ASSET_STORE, "readwrite", (store) => store.clear());
+  storedAssets.clear();
+  lastSaved = "";
+};
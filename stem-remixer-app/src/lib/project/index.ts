@@ -0,0 +1,12 @@
+export { clearSession, loadSession, saveSession } from "./autosave";
+export {
+  exportProjectFile,
+  forgetAudioUrl,
+  importProjectFile,
+  PROJECT_FILE_EXTENSION,
+  restoreProject,
+  snapshotProject,
+} from "./serialize";
+export { createZip } from "./zip";
+export type { ZipEntry } from "./zip";
+export * from "./types";
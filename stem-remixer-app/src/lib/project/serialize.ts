@@ -0,0 +1,204 @@
+import { Node } from "reactflow";
+import { createZip, readZip } from "./zip";
+import {
+  AssetRef,
+  PROJECT_VERSION,
+  ProjectBundle,
+  ProjectManifest,
+  ProjectSettings,
+  ProjectState,
+} from "./types";
+
+// =================== CONSTANTS ===================
+
+// Node data fields that hold audio URLs. Remote (Gradio) URLs expire, so the
+// audio itself is captured into the bundle.
+const AUDIO_KEYS = ["audioUrl", "sourceUrl"];
+
+// Render-time or in-flight state that must not survive a reload.
+const TRANSIENT_KEYS = ["channel", "audible", "loading", "progress", "analyzing", "checking", "preparing", "recording"];
+
+const MANIFEST_NAME = "project.json";
+const ASSET_DIR = "audio/";
+
+// =================== ASSETS ===================
+
+const blobCache = new Map<string, Promise<Blob>>();
+
+const fetchBlob = (url: string): Promise<Blob> => {
+  const cached = blobCache.get(url);
+  if (cached) return cached;
+
+  const pending = fetch(url).then((res) => {
+    if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`);
+    return res.blob();
+  });
+  pending.catch(() => blobCache.delete(url));
+  blobCache.set(url, pending);
+  return pending;
+};
+
+// Each URL or file keeps its asset id, so every snapshot names the same audio
+// the same way and autosave can skip audio it has already stored. The prefix
+// keeps ids from earlier sessions, e.g. in a reopened project, from clashing.
+const urlAssetIds = new Map<string, string>();
+const fileAssetIds = new WeakMap<Blob, string>();
+const ASSET_PREFIX = `asset-${Date.now().toString(36)}`;
+let nextAssetId = 1;
+
+const assetIdFor = (key: string | Blob) => {
+  const known = typeof key === "string" ? urlAssetIds.get(key) : fileAssetIds.get(key);
+  if (known) return known;
+  const id = `${ASSET_PREFIX}-${nextAssetId++}`;
+  if (typeof key === "string") urlAssetIds.set(key, id);
+  else fileAssetIds.set(key, id);
+  return id;
+};
+
+// For URLs that are about to be revoked.
+export const forgetAudioUrl = (url: string) => {
+  blobCache.delete(url);
+  urlAssetIds.delete(url);
+};
+
+const isAssetRef = (value: unknown): value is AssetRef =>
+  typeof value === "object" && value !== null && "$asset" in value;
+
+// =================== SNAPSHOT ===================
+
+export const snapshotProject = async (state: ProjectState): Promise<ProjectBundle> => {
+  const assets = new Map<string, Blob>();
+
+  const addAsset = (key: string | Blob, blob: Blob) => {
+    const id = assetIdFor(key);
+    assets.set(id, blob);
+    return id;
+  };
+
+  const serializeData = async (data: Record<string, unknown>) => {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value === "function" || TRANSIENT_KEYS.includes(key)) continue;
+
+      if (value instanceof File) {
+        result[key] = { $asset: addAsset(value, value), fileName: value.name } satisfies AssetRef;
+      } else if (AUDIO_KEYS.includes(key) && typeof value === "string") {
+        result[key] = { $asset: addAsset(value, await fetchBlob(value)) } satisfies AssetRef;
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  };
+
+  const nodes = await Promise.all(
+    state.nodes.map(async (node) => ({
+      id: node.id,
+      type: node.type,
+      position: node.position,
+      sourcePosition: node.sourcePosition,
+      targetPosition: node.targetPosition,
+      data: await serializeData(node.data as Record<string, unknown>),
+    }))
+  );
+
+  const manifest: ProjectManifest = {
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    nodes,
+    edges: state.edges.map((edge) => ({ ...edge, animated: false })),
+    mixer: state.mixer,
+    settings: state.settings,
+    assets: Object.fromEntries([...assets].map(([id, blob]) => [id, { type: blob.type }])),
+  };
+
+  return { manifest, assets };
+};
+
+// =================== RESTORE ===================
+
+// Version 1 projects held a single song (source "1") and selected stems by label.
+const migrateManifest = (manifest: ProjectManifest): ProjectManifest => {
+  if (manifest.version >= 2) return manifest;
+  const settings = manifest.settings as ProjectSettings & { stemLabels?: string[] };
+  return {
+    ...manifest,
+    version: 2,
+    nodes: manifest.nodes.map((node) => {
+      if (node.type === "sourceNode") return { ...node, data: { ...node.data, id: node.id } };
+      if (node.type === "stemNode") return { ...node, data: { ...node.data, sourceId: "1" } };
+      return node;
+    }),
+    settings: {
+      backendId: settings.backendId,
+      stemSetId: settings.stemSetId,
+      selectedStems: settings.selectedStems.map((label) => `stem-${label.toLowerCase()}`),
+    },
+  };
+};
+
+export const restoreProject = (bundle: ProjectBundle): ProjectState => {
+  if (bundle.manifest.version > PROJECT_VERSION) {
+    throw new Error("This project was saved by a newer version of the app.");
+  }
+  const manifest = migrateManifest(bundle.manifest);
+  const { assets } = bundle;
+
+  const urls = new Map<string, string>();
+  const resolveAsset = (ref: AssetRef) => {
+    const blob = assets.get(ref.$asset);
+    if (!blob) throw new Error(`Project is missing audio asset ${ref.$asset}.`);
+    if (ref.fileName) {
+      const file = new File([blob], ref.fileName, { type: blob.type });
+      fileAssetIds.set(file, ref.$asset);
+      return file;
+    }
+    if (!urls.has(ref.$asset)) {
+      const url = URL.createObjectURL(blob);
+      // Restored audio keeps its id and needs no fetch to be saved again.
+      urlAssetIds.set(url, ref.$asset);
+      blobCache.set(url, Promise.resolve(blob));
+      urls.set(ref.$asset, url);
+    }
+    return urls.get(ref.$asset);
+  };
+
+  const nodes: Node[] = manifest.nodes.map((node) => ({
+    ...node,
+    data: Object.fromEntries(
+      Object.entries(node.data).map(([key, value]) => [key, isAssetRef(value) ? resolveAsset(value) : value])
+    ),
+  }));
+
+  return {
+    nodes,
+    edges: manifest.edges,
+    mixer: manifest.mixer,
+    settings: manifest.settings,
+  };
+};
+
+// =================== FILES ===================
+
+export const PROJECT_FILE_EXTENSION = ".stemremix";
+
+export const exportProjectFile = (bundle: ProjectBundle): Promise<Blob> =>
+  createZip([
+    { name: MANIFEST_NAME, data: new Blob([JSON.stringify(bundle.manifest, null, 2)], { type: "application/json" }) },
+    ...[...bundle.assets].map(([id, data]) => ({ name: `${ASSET_DIR}${id}`, data })),
+  ]);
+
+export const importProjectFile = async (file: Blob): Promise<ProjectBundle> => {
+  const entries = await readZip(file);
+  const manifestBlob = entries.get(MANIFEST_NAME);
+  if (!manifestBlob) throw new Error("Not a stem remixer project file.");
+
+  const manifest = JSON.parse(await manifestBlob.text()) as ProjectManifest;
+  const assets = new Map<string, Blob>();
+  Object.entries(manifest.assets).forEach(([id, { type }]) => {
+    const blob = entries.get(`${ASSET_DIR}${id}`);
+    if (blob) assets.set(id, new Blob([blob], { type }));
+  });
+
+  return { manifest, assets };
+};
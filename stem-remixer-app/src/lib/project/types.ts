@@ -0,0 +1,47 @@
+import { Edge, Node } from "reactflow";
+import { ChannelSettings } from "../audio/mixer";
+import { LoopRegion } from "../audio/transport";
+import { MidiMapping } from "../midi/types";
+
+// =================== TYPES ===================
+
+export const PROJECT_VERSION = 2;
+
+export interface ProjectSettings {
+  backendId: string;
+  stemSetId: string;
+  // Stem node ids ticked in the Sync panel.
+  selectedStems: string[];
+  loop?: LoopRegion | null;
+  midi?: MidiMapping[]; // controller mappings learned for this project
+}
+
+// Everything needed to rebuild the canvas. Node data holds only plain
+// values; callbacks are re-attached by the app when the project is loaded.
+export interface ProjectState {
+  nodes: Node[];
+  edges: Edge[];
+  mixer: Record<string, ChannelSettings>;
+  settings: ProjectSettings;
+}
+
+// Audio references inside serialized node data point at bundled assets.
+export interface AssetRef {
+  $asset: string;
+  fileName?: string;
+}
+
+export interface ProjectManifest {
+  version: number;
+  savedAt: string;
+  nodes: Node<Record<string, unknown>>[];
+  edges: Edge[];
+  mixer: Record<string, ChannelSettings>;
+  settings: ProjectSettings;
+  assets: Record<string, { type: string }>;
+}
+
+export interface ProjectBundle {
+  manifest: ProjectManifest;
+  assets: Map<string, Blob>;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zip";
+
+const text = (blob: Blob | undefined) => blob?.text();
+
+describe("zip archives", () => {
+  it("round-trips entries, including empty and non-ASCII names", async () => {
+    const bytes = Uint8Array.from({ length: 1000 }, (_, i) => (i * 7) % 256);
+    const zip = await createZip([
+      { name: "project.json", data: new Blob(['{"version":1}']) },
+      { name: "audio/Bjørk – Jóga.wav", data: new Blob([bytes]) },
+      { name: "empty.txt", data: new Blob([]) },
+    ]);
+    expect(zip.type).toBe("application/zip");
+
+    const entries = await readZip(zip);
+    expect([...entries.keys()]).toEqual(["project.json", "audio/Bjørk – Jóga.wav", "empty.txt"]);
+    expect(await text(entries.get("project.json"))).toBe('{"version":1}');
+    expect(new Uint8Array(await entries.get("audio/Bjørk – Jóga.wav")!.arrayBuffer())).toEqual(bytes);
+    expect(entries.get("empty.txt")?.size).toBe(0);
+  });
+
+  it("writes standard CRC-32s and flags UTF-8 names", async () => {
+    const zip = new DataView(await (await createZip([{ name: "a.txt", data: new Blob(["123456789"]) }])).arrayBuffer());
+    expect(zip.getUint32(0, true)).toBe(0x04034b50);
+    expect(zip.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(zip.getUint32(14, true)).toBe(0xcbf43926); // the CRC-32 check value
+  });
+
+  it("reads an empty archive", async () => {
+    expect((await readZip(await createZip([]))).size).toBe(0);
+  });
+
+  it("rejects data that isn't a zip", async () => {
+    await expect(readZip(new Blob(["definitely not an archive"]))).rejects.toThrow("Not a zip archive.");
+  });
+});
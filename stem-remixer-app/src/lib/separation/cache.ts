@@ -0,0 +1,206 @@
+import { SeparatedStem, SeparationBackend } from "./types";
+
+// =================== TYPES ===================
+
+export interface CacheEntry {
+  key: string;
+  label: string; // file name of the song
+  backendName: string;
+  stemSet: string;
+  stemLabels: string[];
+  sizeBytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface StemCacheSnapshot {
+  entries: CacheEntry[]; // most recently used first
+  totalBytes: number;
+  limitBytes: number;
+}
+
+export interface StemCache {
+  get: (key: string) => Promise<SeparatedStem[] | null>;
+  put: (key: string, info: Pick<CacheEntry, "label" | "backendName" | "stemSet">, stems: SeparatedStem[]) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+  setLimit: (bytes: number) => Promise<void>;
+  getSnapshot: () => StemCacheSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface StoredSeparation extends Omit<CacheEntry, "stemLabels"> {
+  stems: { label: string; blob: Blob }[];
+}
+
+export const DEFAULT_CACHE_LIMIT_BYTES = 500 * 1024 * 1024;
+
+// =================== KEYS ===================
+
+const hashes = new WeakMap<File, Promise<string>>();
+
+const sha256 = (file: File): Promise<string> => {
+  const cached = hashes.get(file);
+  if (cached) return cached;
+  const pending = file
+    .arrayBuffer()
+    .then((bytes) => crypto.subtle.digest("SHA-256", bytes))
+    .then((digest) => [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join(""));
+  hashes.set(file, pending);
+  return pending;
+};
+
+// The same audio separated by the same model into the same stems. `variant`
+// covers anything else that changes the result, such as how the upload was prepared.
+export const separationCacheKey = async (file: File, backend: SeparationBackend, stemSet: string, variant = "") =>
+  [await sha256(file), backend.id, backend.model, stemSet, variant].join("|");
+
+// =================== INDEXEDDB STORE ===================
+
+const DB_NAME = "stem-remixer-stem-cache";
+const STORE = "separations";
+const LIMIT_STORAGE_KEY = "stem-remixer:stem-cache-limit";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "key" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const toEntry = ({ stems, ...entry }: StoredSeparation): CacheEntry => ({
+  ...entry,
+  stemLabels: stems.map((stem) => stem.label),
+});
+
+const loadLimit = () => {
+  const stored = Number(localStorage.getItem(LIMIT_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_CACHE_LIMIT_BYTES;
+};
+
+// =================== CACHE ===================
+
+const createStemCache = (): StemCache => {
+  const listeners = new Set<() => void>();
+  let snapshot: StemCacheSnapshot = { entries: [], totalBytes: 0, limitBytes: loadLimit() };
+
+  // Re-reads the index from the store; the stored blobs are not loaded.
+  const refresh = async () => {
+    const stored = await withStore<StoredSeparation[]>("readonly", (store) => store.getAll());
+    const entries = stored.map(toEntry).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    snapshot = {
+      entries,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+      limitBytes: snapshot.limitBytes,
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  // Drops least recently used separations until the cache fits its limit.
+  const evict = async () => {
+    let total = snapshot.totalBytes;
+    const oldestFirst = [...snapshot.entries].reverse();
+    for (const entry of oldestFirst) {
+      if (total <= snapshot.limitBytes) break;
+      await withStore("readwrite", (store) => store.delete(entry.key));
+      total -= entry.sizeBytes;
+    }
+    await refresh();
+  };
+
+  const get = async (key: string) => {
+    const stored = await withStore<StoredSeparation | undefined>("readonly", (store) => store.get(key));
+    if (!stored) return null;
+    await withStore("readwrite", (store) => store.put({ ...stored, lastUsedAt: Date.now() }));
+    await refresh();
+    return stored.stems.map((stem) => ({ label: stem.label, url: URL.createObjectURL(stem.blob) }));
+  };
+
+  const put: StemCache["put"] = async (key, info, stems) => {
+    // Remote stem URLs expire, so the audio itself is stored.
+    const blobs = await Promise.all(
+      stems.map(async (stem) => {
+        const res = await fetch(stem.url);
+        if (!res.ok) throw new Error(`Failed to fetch ${stem.label} (${res.status})`);
+        return { label: stem.label, blob: await res.blob() };
+      })
+    );
+    const sizeBytes = blobs.reduce((sum, stem) => sum + stem.blob.size, 0);
+    if (sizeBytes > snapshot.limitBytes) return; // would evict everything else and still not fit
+
+    const now = Date.now();
+    const record: StoredSeparation = {
+      key,
+      ...info,
+      stems: blobs,
+      sizeBytes,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    await withStore("readwrite", (store) => store.put(record));
+    await refresh();
+    await evict();
+  };
+
+  const remove = async (key: string) => {
+    await withStore("readwrite", (store) => store.delete(key));
+    await refresh();
+  };
+
+  const clear = async () => {
+    await withStore("readwrite", (store) => store.clear());
+    await refresh();
+  };
+
+  const setLimit = async (bytes: number) => {
+    localStorage.setItem(LIMIT_STORAGE_KEY, String(bytes));
+    snapshot = { ...snapshot, limitBytes: bytes };
+    await evict();
+  };
+
+  refresh().catch((err) => console.warn("Could not read the stem cache:", err));
+
+  return {
+    get,
+    put,
+    remove,
+    clear,
+    setLimit,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let sharedStemCache: StemCache | null = null;
+
+// Created on first use, which must be in the browser (an effect, an event
+// handler or a store subscription): it reads localStorage and IndexedDB.
+export const getStemCache = (): StemCache => {
+  if (typeof window === "undefined") throw new Error("The stem cache is only available in the browser.");
+  if (!sharedStemCache) {
+    sharedStemCache = createStemCache();
+  }
+  return sharedStemCache;
+};
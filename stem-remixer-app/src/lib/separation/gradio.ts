@@ -0,0 +1,73 @@
+import { decodeAudioUrl } from "../audio/context";
+import { mixdownTracks } from "../audio/mixdown";
+import { encodeWav } from "../audio/wav";
+import { connectGradioSpace, GradioFileData, GradioStatusMessage, loadGradioClient, runGradioJob } from "../gradio";
+import { FOUR_STEMS, TWO_STEMS } from "./stemSets";
+import { SeparationBackend, SeparationProgress } from "./types";
+
+// =================== HT-DEMUCS (GRADIO SPACE) ===================
+
+const SPACE = "ahk-d/HT-Demucs-Stem-Separation-2025";
+const ENDPOINT = "/separate_stems";
+// The Space runs Demucs v4's hybrid transformer weights but doesn't report a
+// version; bump this when it switches models so cached stems aren't reused.
+const MODEL_REVISION = "htdemucs-v4";
+
+// The endpoint returns one file per stem in this order.
+const OUTPUT_ORDER = FOUR_STEMS.stems;
+
+const toProgress = (message: GradioStatusMessage): SeparationProgress => {
+  const step = message.progress_data?.[0];
+  const progress = step?.progress ?? (step?.index != null && step.length ? step.index / step.length : undefined);
+
+  return {
+    stage: message.stage === "pending" ? "queued" : "processing",
+    progress,
+    queuePosition: message.position,
+    message: message.message,
+  };
+};
+
+export const gradioDemucsBackend: SeparationBackend = {
+  id: "ht-demucs",
+  name: "HT-Demucs (Hugging Face)",
+  model: `${SPACE}${ENDPOINT}@${MODEL_REVISION}`,
+  capabilities: {
+    offline: false,
+    acceptedMimeTypes: ["audio/*"],
+    // Uploads beyond this are rejected by the Space after the transfer.
+    maxFileSizeBytes: 200 * 1024 * 1024,
+    inputFormat: { sampleRate: 44100, channels: 2 },
+  },
+  stemSets: [FOUR_STEMS, TWO_STEMS],
+  separate: async (file, { stemSet, onProgress, signal }) => {
+    onProgress?.({ stage: "uploading" });
+    const [gradio, app] = await Promise.all([loadGradioClient(), connectGradioSpace(SPACE)]);
+
+    const outputs = await runGradioJob(app, ENDPOINT, [gradio.handle_file(file)], {
+      signal,
+      onStatus: (message) => onProgress?.(toProgress(message)),
+    });
+
+    const stems = OUTPUT_ORDER.map((label, i) => {
+      const url = (outputs[i] as GradioFileData | null)?.url;
+      if (!url) throw new Error(`Backend returned no audio for ${label}.`);
+      return { label, url };
+    });
+
+    const result = stemSet === TWO_STEMS.id ? await toTwoStems(stems) : stems;
+    onProgress?.({ stage: "done", progress: 1 });
+    return result;
+  },
+};
+
+// The model always produces four stems; the 2-stem layout folds everything
+// except vocals into a single accompaniment track.
+const toTwoStems = async (stems: { label: string; url: string }[]) => {
+  const vocals = stems.find((stem) => stem.label === "Vocals")!;
+  const rest = stems.filter((stem) => stem !== vocals);
+  const buffers = await Promise.all(rest.map((stem) => decodeAudioUrl(stem.url)));
+  const accompaniment = await mixdownTracks(buffers.map((buffer) => ({ buffer })), buffers[0].sampleRate);
+
+  return [vocals, { label: "Accompaniment", url: URL.createObjectURL(encodeWav(accompaniment)) }];
+};
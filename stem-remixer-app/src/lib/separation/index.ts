@@ -0,0 +1,37 @@
+import { gradioDemucsBackend } from "./gradio";
+import { localBandSplitBackend } from "./mock";
+import { SeparationBackend, StemSet } from "./types";
+
+// =================== REGISTRY ===================
+
+// New separation services only need to be listed here; the UI reads the
+// available backends, their stem sets and capabilities from this registry.
+export const SEPARATION_BACKENDS: SeparationBackend[] = [gradioDemucsBackend, localBandSplitBackend];
+
+export const DEFAULT_BACKEND_ID = gradioDemucsBackend.id;
+
+export const getSeparationBackend = (id: string): SeparationBackend =>
+  SEPARATION_BACKENDS.find((backend) => backend.id === id) ?? gradioDemucsBackend;
+
+export { getStemColor } from "./stemSets";
+export * from "./types";
+
+export const getStemSet = (backend: SeparationBackend, stemSetId: string): StemSet =>
+  backend.stemSets.find((set) => set.id === stemSetId) ?? backend.stemSets[0];
+
+export { getJobManager, isJobActive } from "./jobs";
+export type { JobStatus, SeparationJob } from "./jobs";
+export { useSeparationJob, useSeparationJobs } from "./useJobs";
+export { DEFAULT_CACHE_LIMIT_BYTES, getStemCache, separationCacheKey } from "./cache";
+export type { CacheEntry, StemCacheSnapshot } from "./cache";
+export { useStemCache } from "./useStemCache";
+export {
+  checkFile,
+  checkStats,
+  DEFAULT_PREFLIGHT_SETTINGS,
+  inspectAudioFile,
+  loadPreflightSettings,
+  prepareForSeparation,
+  savePreflightSettings,
+} from "./preflight";
+export type { InputStats, PreflightSettings } from "./preflight";
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GradioJobError } from "../gradio";
+import { createJobManager, JobManager, SeparationRequest } from "./jobs";
+import { localBandSplitBackend } from "./mock";
+import { SeparatedStem, SeparationBackend } from "./types";
+
+const STEMS: SeparatedStem[] = [{ label: "Vocals", url: "blob:vocals" }];
+
+// The offline mock backend with scripted attempts in place of its band split,
+// which needs Web Audio.
+const scriptedBackend = (...attempts: SeparationBackend["separate"][]) => {
+  const separate = vi.fn<SeparationBackend["separate"]>();
+  attempts.forEach((attempt) => separate.mockImplementationOnce(attempt));
+  return { ...localBandSplitBackend, separate };
+};
+
+const fail = (err: unknown) => () => Promise.reject(err);
+const succeed = () => Promise.resolve(STEMS);
+// Runs until aborted, as the real backends do.
+const untilAborted: SeparationBackend["separate"] = (_, { signal }) =>
+  new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))));
+
+const request = (backend: SeparationBackend): SeparationRequest => ({
+  file: new File(["song"], "song.wav", { type: "audio/wav" }),
+  backend,
+  stemSet: "4stems",
+  label: "song.wav",
+  onSuccess: vi.fn(),
+  onFailure: vi.fn(),
+  onCancel: vi.fn(),
+});
+
+// Lets settled attempts run their handlers.
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe("separation job manager", () => {
+  let jobs: JobManager;
+  const jobOf = (id: string) => jobs.getSnapshot().find((job) => job.id === id)!;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    jobs = createJobManager({ concurrency: 1, maxAttempts: 3, baseRetryDelayMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("hands the stems over when the backend succeeds", async () => {
+    const req = request(scriptedBackend(succeed));
+    const id = jobs.enqueue(req);
+    await flush();
+    expect(jobOf(id)).toMatchObject({ status: "succeeded", attempt: 1 });
+    expect(req.onSuccess).toHaveBeenCalledWith(STEMS);
+  });
+
+  it("retries transient failures with exponential backoff", async () => {
+    const backend = scriptedBackend(fail(new TypeError("Failed to fetch")), fail({ status: 503 }), succeed);
+    const req = request(backend);
+    const id = jobs.enqueue(req);
+    await flush();
+    expect(jobOf(id)).toMatchObject({ status: "retrying", attempt: 1, error: "Failed to fetch" });
+    expect(jobOf(id).nextRetryAt).toBe(Date.now() + 1000);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(backend.separate).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(backend.separate).toHaveBeenCalledTimes(2);
+    expect(jobOf(id)).toMatchObject({ status: "retrying", attempt: 2 });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(backend.separate).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(jobOf(id)).toMatchObject({ status: "succeeded", attempt: 3 });
+    expect(req.onSuccess).toHaveBeenCalledOnce();
+    expect(req.onFailure).not.toHaveBeenCalled();
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const timeout = () => new DOMException("Timed out", "TimeoutError");
+    const backend = scriptedBackend(fail(timeout()), fail(timeout()), fail(timeout()), succeed);
+    const req = request(backend);
+    const id = jobs.enqueue(req);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(backend.separate).toHaveBeenCalledTimes(3);
+    expect(jobOf(id)).toMatchObject({ status: "failed", attempt: 3, error: "Timed out" });
+    expect(req.onFailure).toHaveBeenCalledExactlyOnceWith("Timed out");
+  });
+
+  it.each([
+    ["a network error", new TypeError("Failed to fetch"), true],
+    ["a timeout", new DOMException("Timed out", "TimeoutError"), true],
+    ["a server error", Object.assign(new Error("Bad gateway"), { status: 502 }), true],
+    ["rate limiting", Object.assign(new Error("Too many requests"), { status: 429 }), true],
+    ["a dropped Space connection", new GradioJobError("Connection lost", true), true],
+    ["a rejected upload", Object.assign(new Error("Bad request"), { status: 400 }), false],
+    ["an endpoint error", new GradioJobError("Could not read audio", false), false],
+    ["an undecodable file", new DOMException("Unable to decode", "EncodingError"), false],
+    ["any other error", new Error("Unexpected"), false],
+  ])("retries %s: %s", async (_, err, retried) => {
+    const id = jobs.enqueue(request(scriptedBackend(fail(err), succeed)));
+    await flush();
+    expect(jobOf(id).status).toBe(retried ? "retrying" : "failed");
+  });
+
+  it("cancelling while waiting to retry clears the timer and never runs again", async () => {
+    const backend = scriptedBackend(fail(new TypeError("Failed to fetch")), succeed);
+    const req = request(backend);
+    const id = jobs.enqueue(req);
+    await flush();
+    expect(vi.getTimerCount()).toBe(1);
+
+    jobs.cancel(id);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(jobOf(id)).toMatchObject({ status: "cancelled", nextRetryAt: undefined });
+    expect(req.onCancel).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(backend.separate).toHaveBeenCalledOnce();
+  });
+
+  it("cancelling a queued job frees its place in the queue", async () => {
+    const first = jobs.enqueue(request(scriptedBackend(untilAborted)));
+    const secondBackend = scriptedBackend(succeed);
+    const second = jobs.enqueue(request(secondBackend));
+    const third = jobs.enqueue(request(scriptedBackend(succeed)));
+    await flush();
+    expect(jobOf(second).localQueuePosition).toBe(0);
+    expect(jobOf(third).localQueuePosition).toBe(1);
+
+    jobs.cancel(second);
+    expect(jobOf(second).localQueuePosition).toBeUndefined();
+    expect(jobOf(third).localQueuePosition).toBe(0);
+
+    jobs.cancel(first);
+    await flush();
+    expect(secondBackend.separate).not.toHaveBeenCalled();
+    expect(jobOf(third).status).toBe("succeeded");
+  });
+
+  it("cancelling a running job aborts it and ignores its late result", async () => {
+    let finish: (stems: SeparatedStem[]) => void = () => {};
+    const backend = scriptedBackend(() => new Promise((resolve) => (finish = resolve)));
+    const req = request(backend);
+    const id = jobs.enqueue(req);
+    await flush();
+
+    jobs.cancel(id);
+    expect(backend.separate.mock.calls[0][1].signal?.aborted).toBe(true);
+    finish(STEMS);
+    await flush();
+    expect(jobOf(id).status).toBe("cancelled");
+    expect(req.onSuccess).not.toHaveBeenCalled();
+  });
+
+  it("a manual retry starts a fresh set of attempts", async () => {
+    const err = new TypeError("Failed to fetch");
+    const backend = scriptedBackend(fail(err), fail(err), fail(err), succeed);
+    const req = request(backend);
+    const id = jobs.enqueue(req);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(jobOf(id).status).toBe("failed");
+
+    jobs.retry(id);
+    await flush();
+    expect(jobOf(id)).toMatchObject({ status: "succeeded", attempt: 1 });
+  });
+});
@@ -0,0 +1,217 @@
+import { SeparatedStem, SeparationBackend, SeparationProgress } from "./types";
+
+// =================== TYPES ===================
+
+export type JobStatus = "pending" | "running" | "retrying" | "succeeded" | "failed" | "cancelled";
+
+export interface SeparationJob {
+  id: string;
+  label: string;
+  backendName: string;
+  status: JobStatus;
+  progress: SeparationProgress | null;
+  // Position in the local queue while waiting for a free slot (0 = next).
+  localQueuePosition?: number;
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt?: number;
+  error?: string;
+}
+
+export interface SeparationRequest {
+  file: File;
+  backend: SeparationBackend;
+  stemSet: string;
+  label: string;
+  onSuccess: (stems: SeparatedStem[]) => void;
+  onFailure: (message: string) => void;
+  onCancel?: () => void;
+}
+
+export interface JobManager {
+  enqueue: (request: SeparationRequest) => string;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  dismiss: (id: string) => void;
+  getSnapshot: () => SeparationJob[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface JobManagerOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  baseRetryDelayMs?: number;
+}
+
+interface JobRecord {
+  job: SeparationJob;
+  request: SeparationRequest;
+  controller: AbortController | null;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ["pending", "running", "retrying"];
+
+export const isJobActive = (job: SeparationJob) => ACTIVE_STATUSES.includes(job.status);
+
+// Network failures, timeouts and server errors can clear up on their own.
+// Anything else (rejected input, 4xx responses, undecodable audio) fails the
+// same way every time, so it isn't retried.
+const isTransientError = (err: unknown): boolean => {
+  if (err instanceof Error && "transient" in err) return Boolean(err.transient);
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === "number") return status >= 500 || status === 408 || status === 429;
+  if (err instanceof DOMException) return err.name === "TimeoutError" || err.name === "NetworkError";
+  return err instanceof TypeError; // how fetch reports an unreachable server
+};
+
+// =================== JOB MANAGER ===================
+
+export const createJobManager = ({
+  concurrency = 2,
+  maxAttempts = 3,
+  baseRetryDelayMs = 2000,
+}: JobManagerOptions = {}): JobManager => {
+  const records = new Map<string, JobRecord>();
+  const pending: string[] = [];
+  const listeners = new Set<() => void>();
+  let running = 0;
+  let nextId = 1;
+  let snapshot: SeparationJob[] = [];
+
+  const emit = () => {
+    snapshot = [...records.values()].map(({ job }) => {
+      const position = pending.indexOf(job.id);
+      return { ...job, localQueuePosition: position >= 0 ? position : undefined };
+    });
+    listeners.forEach((listener) => listener());
+  };
+
+  const update = (record: JobRecord, patch: Partial<SeparationJob>) => {
+    record.job = { ...record.job, ...patch };
+    emit();
+  };
+
+  const run = async (record: JobRecord) => {
+    const controller = new AbortController();
+    record.controller = controller;
+    running++;
+    update(record, { status: "running", attempt: record.job.attempt + 1, progress: null, error: undefined });
+
+    const { file, backend, stemSet } = record.request;
+    try {
+      const stems = await backend.separate(file, {
+        stemSet,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) update(record, { progress });
+        },
+      });
+      if (controller.signal.aborted) return;
+      update(record, { status: "succeeded", progress: { stage: "done", progress: 1 } });
+      record.request.onSuccess(stems);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Separation attempt ${record.job.attempt} failed:`, err);
+
+      if (record.job.attempt < record.job.maxAttempts && isTransientError(err)) {
+        // Exponential backoff: 2s, 4s, 8s, ...
+        const delay = baseRetryDelayMs * 2 ** (record.job.attempt - 1);
+        update(record, { status: "retrying", error: message, nextRetryAt: Date.now() + delay });
+        record.retryTimer = setTimeout(() => {
+          record.retryTimer = null;
+          pending.push(record.job.id);
+          update(record, { status: "pending", nextRetryAt: undefined });
+          pump();
+        }, delay);
+      } else {
+        update(record, { status: "failed", error: message });
+        record.request.onFailure(message);
+      }
+    } finally {
+      record.controller = null;
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const record = records.get(pending.shift()!);
+      if (record) run(record);
+    }
+    emit();
+  };
+
+  const enqueue = (request: SeparationRequest) => {
+    const id = `job-${nextId++}`;
+    records.set(id, {
+      job: {
+        id,
+        label: request.label,
+        backendName: request.backend.name,
+        status: "pending",
+        progress: null,
+        attempt: 0,
+        maxAttempts,
+      },
+      request,
+      controller: null,
+      retryTimer: null,
+    });
+    pending.push(id);
+    pump();
+    return id;
+  };
+
+  const cancel = (id: string) => {
+    const record = records.get(id);
+    if (!record || !isJobActive(record.job)) return;
+    record.controller?.abort();
+    if (record.retryTimer) clearTimeout(record.retryTimer);
+    record.retryTimer = null;
+    const index = pending.indexOf(id);
+    if (index >= 0) pending.splice(index, 1);
+    update(record, { status: "cancelled", nextRetryAt: undefined });
+    record.request.onCancel?.();
+  };
+
+  // Manual retry after a final failure or cancellation starts a fresh set of attempts.
+  const retry = (id: string) => {
+    const record = records.get(id);
+    if (!record || isJobActive(record.job)) return;
+    record.job = { ...record.job, status: "pending", attempt: 0, error: undefined, progress: null };
+    pending.push(id);
+    pump();
+  };
+
+  const dismiss = (id: string) => {
+    cancel(id);
+    records.delete(id);
+    emit();
+  };
+
+  return {
+    enqueue,
+    cancel,
+    retry,
+    dismiss,
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+let sharedJobManager: JobManager | null = null;
+
+export const getJobManager = (): JobManager => {
+  if (!sharedJobManager) {
+    sharedJobManager = createJobManager();
+  }
+  return sharedJobManager;
+};
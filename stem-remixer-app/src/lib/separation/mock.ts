@@ -0,0 +1,79 @@
+import { getAudioContext } from "../audio/context";
+import { encodeWav } from "../audio/wav";
+import { FOUR_STEMS, SIX_STEMS, TWO_STEMS } from "./stemSets";
+import { SeparationBackend } from "./types";
+
+// =================== LOCAL BAND-SPLIT BACKEND ===================
+
+// Not a real separator: each "stem" is a band-filtered copy of the input,
+// which is enough to exercise the whole app offline.
+interface BandSpec {
+  type: BiquadFilterType;
+  frequency: number;
+  Q?: number;
+}
+
+const STEM_BANDS: Record<string, BandSpec[]> = {
+  Drums: [{ type: "highpass", frequency: 5000 }],
+  Bass: [{ type: "lowpass", frequency: 250 }],
+  Other: [
+    { type: "highpass", frequency: 250 },
+    { type: "lowpass", frequency: 5000 },
+    { type: "notch", frequency: 1000, Q: 0.5 },
+  ],
+  Vocals: [{ type: "bandpass", frequency: 1000, Q: 0.8 }],
+  Accompaniment: [{ type: "notch", frequency: 1000, Q: 0.3 }],
+  Guitar: [{ type: "bandpass", frequency: 600, Q: 1.2 }],
+  Piano: [{ type: "bandpass", frequency: 2000, Q: 1.2 }],
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+};
+
+const renderBand = async (source: AudioBuffer, bands: BandSpec[]) => {
+  const ctx = new OfflineAudioContext(source.numberOfChannels, source.length, source.sampleRate);
+  const input = ctx.createBufferSource();
+  input.buffer = source;
+
+  let tail: AudioNode = input;
+  bands.forEach((band) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    if (band.Q !== undefined) filter.Q.value = band.Q;
+    tail = tail.connect(filter);
+  });
+  tail.connect(ctx.destination);
+  input.start();
+
+  return ctx.startRendering();
+};
+
+export const localBandSplitBackend: SeparationBackend = {
+  id: "local-band-split",
+  name: "Local band split (offline mock)",
+  model: "band-split-v1",
+  capabilities: {
+    offline: true,
+    acceptedMimeTypes: ["audio/*"],
+  },
+  stemSets: [FOUR_STEMS, TWO_STEMS, SIX_STEMS],
+  separate: async (file, { stemSet, onProgress, signal }) => {
+    const stems = localBandSplitBackend.stemSets.find((set) => set.id === stemSet)?.stems ?? FOUR_STEMS.stems;
+
+    onProgress?.({ stage: "processing", progress: 0 });
+    const source = await getAudioContext().decodeAudioData(await file.arrayBuffer());
+
+    const results = [];
+    for (const [i, label] of stems.entries()) {
+      throwIfAborted(signal);
+      const rendered = await renderBand(source, STEM_BANDS[label] ?? []);
+      results.push({ label, url: URL.createObjectURL(encodeWav(rendered)) });
+      onProgress?.({ stage: "processing", progress: (i + 1) / stems.length });
+    }
+
+    onProgress?.({ stage: "done", progress: 1 });
+    return results;
+  },
+};
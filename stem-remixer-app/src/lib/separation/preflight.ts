@@ -0,0 +1,224 @@
+import { decodeAudioUrl } from "../audio/context";
+import { encodeWav } from "../audio/wav";
+import { SeparationCapabilities } from "./types";
+
+// =================== TYPES ===================
+
+export interface InputStats {
+  duration: number; // seconds
+  // Read from the file header when possible; otherwise the decoded rate.
+  sampleRate: number;
+  channels: number;
+  peakDb: number; // dBFS
+  sizeBytes: number;
+  clipped: boolean;
+}
+
+// User-configurable checks; a backend's own limits apply on top of these.
+export interface PreflightSettings {
+  maxFileSizeMb: number;
+  maxDurationMinutes: number;
+  // Convert uploads to the backend's preferred sample rate and channel count.
+  // Off by default: backends resample on their side, and the converted WAV
+  // is often many times the size of a compressed upload.
+  convert: boolean;
+  // Bring the peak level to NORMALIZED_PEAK_DB before upload.
+  normalize: boolean;
+}
+
+export const DEFAULT_PREFLIGHT_SETTINGS: PreflightSettings = {
+  maxFileSizeMb: 150,
+  maxDurationMinutes: 15,
+  convert: false,
+  normalize: false,
+};
+
+const MIN_DURATION_SECONDS = 1;
+const SILENCE_DB = -60;
+const NORMALIZED_PEAK_DB = -1;
+const CLIP_LEVEL = 0.999;
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+const formatMinutes = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+// =================== HEADER SNIFFING ===================
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+// Browsers resample while decoding, so the file's own rate has to come from
+// its header. Covers WAV, FLAC and MP3; other formats report the decoded rate.
+const sniffSampleRate = (bytes: Uint8Array): number | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (tag(0) === "RIFF" && tag(8) === "WAVE") {
+    for (let offset = 12; offset + 16 <= bytes.length; offset += 8 + view.getUint32(offset + 4, true)) {
+      if (tag(offset) === "fmt ") return view.getUint32(offset + 12, true);
+    }
+    return undefined;
+  }
+
+  if (tag(0) === "fLaC" && bytes.length >= 21) {
+    return (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4);
+  }
+
+  // MP3: skip an ID3v2 tag (syncsafe size), then read the first frame header.
+  // Only files that start like an MP3 are scanned, so other containers can't
+  // produce a false frame sync.
+  const isSync = (i: number) => bytes[i] === 0xff && (bytes[i + 1] & 0xe0) === 0xe0 && (bytes[i + 1] & 0x06) !== 0;
+  let start = 0;
+  if (tag(0).startsWith("ID3") && bytes.length >= 10) {
+    start = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  } else if (!isSync(0)) {
+    return undefined;
+  }
+  for (let i = start; i + 2 < Math.min(bytes.length, start + 4096); i++) {
+    if (!isSync(i)) continue;
+    const rate = MP3_SAMPLE_RATES[(bytes[i + 1] >> 3) & 3]?.[(bytes[i + 2] >> 2) & 3];
+    if (rate) return rate;
+  }
+  return undefined;
+};
+
+// =================== CHECKS ===================
+
+const acceptsMimeType = (accepted: string[], type: string) =>
+  accepted.some((pattern) => (pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern));
+
+const maxBytes = (capabilities: SeparationCapabilities, settings: PreflightSettings) =>
+  Math.min(settings.maxFileSizeMb * 1024 * 1024, capabilities.maxFileSizeBytes ?? Infinity);
+
+const maxSeconds = (capabilities: SeparationCapabilities, settings: PreflightSettings) =>
+  Math.min(settings.maxDurationMinutes * 60, capabilities.maxDurationSeconds ?? Infinity);
+
+// Checks that don't need the audio decoded; run first so huge or non-audio
+// files are turned away before the browser tries to decode them.
+export const checkFile = (
+  file: File,
+  capabilities: SeparationCapabilities,
+  settings: PreflightSettings
+): string | null => {
+  if (file.type && !acceptsMimeType(capabilities.acceptedMimeTypes, file.type)) {
+    return `Unsupported file type (${file.type}).`;
+  }
+  const limit = maxBytes(capabilities, settings);
+  if (file.size > limit) return `File is ${formatMb(file.size)}; the limit is ${formatMb(limit)}.`;
+  return null;
+};
+
+export const checkStats = (
+  stats: InputStats,
+  capabilities: SeparationCapabilities,
+  settings: PreflightSettings
+): string | null => {
+  const limit = maxSeconds(capabilities, settings);
+  if (stats.duration > limit) {
+    return `Song is ${formatMinutes(stats.duration)} long; the limit is ${formatMinutes(limit)}.`;
+  }
+  if (stats.duration < MIN_DURATION_SECONDS) return "Song is too short to separate.";
+  if (stats.peakDb < SILENCE_DB) return "Song is silent.";
+  return null;
+};
+
+// =================== INSPECTION ===================
+
+// Decodes the upload locally and measures it. `url` is the blob URL the app
+// already created for the file, so the decode is shared with playback and analysis.
+export const inspectAudioFile = async (file: File, url: string): Promise<InputStats> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioUrl(url);
+  } catch (err) {
+    console.error("Decoding upload failed:", err);
+    throw new Error("Could not decode this file. It may be corrupt or in an unsupported format.");
+  }
+
+  let peak = 0;
+  let clippedSamples = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+      if (value >= CLIP_LEVEL) clippedSamples++;
+    }
+  }
+
+  const header = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  return {
+    duration: buffer.duration,
+    sampleRate: sniffSampleRate(header) ?? buffer.sampleRate,
+    channels: buffer.numberOfChannels,
+    peakDb: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+    sizeBytes: file.size,
+    // A handful of full-scale samples is normal for mastered audio.
+    clipped: clippedSamples > buffer.sampleRate * 0.001,
+  };
+};
+
+// =================== CONVERSION ===================
+
+// Returns the file to upload: the original, or a WAV resampled / remixed to
+// the backend's input format and optionally peak-normalized. A WAV over the
+// size limit falls back to the original, which already passed checkFile.
+export const prepareForSeparation = async (
+  file: File,
+  url: string,
+  stats: InputStats,
+  capabilities: SeparationCapabilities,
+  settings: PreflightSettings
+): Promise<File> => {
+  const format = settings.convert ? capabilities.inputFormat : undefined;
+  const sampleRate = format?.sampleRate ?? stats.sampleRate;
+  const channels = format?.channels ?? stats.channels;
+  const gainDb = settings.normalize && Math.abs(stats.peakDb - NORMALIZED_PEAK_DB) > 0.5 ? NORMALIZED_PEAK_DB - stats.peakDb : 0;
+  if (sampleRate === stats.sampleRate && channels === stats.channels && gainDb === 0) return file;
+
+  const buffer = await decodeAudioUrl(url);
+  const ctx = new OfflineAudioContext(channels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const gain = ctx.createGain();
+  gain.gain.value = Math.pow(10, gainDb / 20);
+  source.connect(gain).connect(ctx.destination);
+  source.start();
+
+  const rendered = await ctx.startRendering();
+  const wav = encodeWav(rendered);
+  const limit = maxBytes(capabilities, settings);
+  if (wav.size > limit) {
+    console.warn(`Converted upload is ${formatMb(wav.size)}, over the ${formatMb(limit)} limit; sending the original.`);
+    return file;
+  }
+  const name = `${file.name.replace(/\.[^.]+$/, "")}.wav`;
+  return new File([wav], name, { type: "audio/wav" });
+};
+
+// =================== SETTINGS STORAGE ===================
+
+const STORAGE_KEY = "stem-remixer:preflight";
+
+export const loadPreflightSettings = (): PreflightSettings => {
+  try {
+    return { ...DEFAULT_PREFLIGHT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") };
+  } catch (err) {
+    console.warn("Ignoring unreadable input check settings:", err);
+    return DEFAULT_PREFLIGHT_SETTINGS;
+  }
+};
+
+export const savePreflightSettings = (settings: PreflightSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Saving input check settings failed:", err);
+  }
+};
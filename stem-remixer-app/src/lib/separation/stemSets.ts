@@ -0,0 +1,41 @@
+import { StemSet } from "./types";
+
+// =================== STEM SETS ===================
+
+export const TWO_STEMS: StemSet = {
+  id: "2stems",
+  label: "2 stems",
+  stems: ["Vocals", "Accompaniment"],
+};
+
+export const FOUR_STEMS: StemSet = {
+  id: "4stems",
+  label: "4 stems",
+  stems: ["Drums", "Bass", "Other", "Vocals"],
+};
+
+export const SIX_STEMS: StemSet = {
+  id: "6stems",
+  label: "6 stems",
+  stems: ["Drums", "Bass", "Guitar", "Piano", "Other", "Vocals"],
+};
+
+// =================== STEM COLORS ===================
+
+const STEM_COLORS: Record<string, string> = {
+  Drums: "#f59e0b",
+  Bass: "#3b82f6",
+  Other: "#10b981",
+  Vocals: "#ef4444",
+  Accompaniment: "#8b5cf6",
+  Guitar: "#f97316",
+  Piano: "#14b8a6",
+};
+
+const FALLBACK_COLORS = ["#eab308", "#ec4899", "#84cc16", "#6366f1", "#0ea5e9"];
+
+export const getStemColor = (label: string): string => {
+  if (STEM_COLORS[label]) return STEM_COLORS[label];
+  const hash = [...label].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+};
@@ -0,0 +1,49 @@
+// =================== TYPES ===================
+
+export interface StemSet {
+  id: string;
+  label: string;
+  stems: string[];
+}
+
+export interface SeparationCapabilities {
+  // True when the backend runs in the browser without network access.
+  offline: boolean;
+  acceptedMimeTypes: string[];
+  maxDurationSeconds?: number;
+  maxFileSizeBytes?: number;
+  // Format the model works in; uploads can be converted to it beforehand.
+  inputFormat?: { sampleRate: number; channels: number };
+}
+
+export type SeparationStage = "queued" | "uploading" | "processing" | "done";
+
+export interface SeparationProgress {
+  stage: SeparationStage;
+  // 0..1 when the backend can estimate it.
+  progress?: number;
+  queuePosition?: number;
+  message?: string;
+}
+
+export interface SeparateOptions {
+  stemSet: string;
+  onProgress?: (progress: SeparationProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface SeparatedStem {
+  label: string;
+  url: string;
+}
+
+export interface SeparationBackend {
+  id: string;
+  name: string;
+  // Identifies the model (and its version) behind the backend; cached stems
+  // are keyed by it, so a model change separates songs afresh.
+  model: string;
+  capabilities: SeparationCapabilities;
+  stemSets: StemSet[];
+  separate: (file: File, options: SeparateOptions) => Promise<SeparatedStem[]>;
+}
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from "react";
+import { getJobManager, SeparationJob } from "./jobs";
+
+// =================== REACT BINDINGS ===================
+
+const NO_JOBS: SeparationJob[] = [];
+
+const subscribe = (listener: () => void) => getJobManager().subscribe(listener);
+const getSnapshot = () => getJobManager().getSnapshot();
+
+export const useSeparationJobs = (): SeparationJob[] =>
+  useSyncExternalStore(subscribe, getSnapshot, () => NO_JOBS);
+
+export const useSeparationJob = (id: string | undefined): SeparationJob | undefined => {
+  const jobs = useSeparationJobs();
+  return id ? jobs.find((job) => job.id === id) : undefined;
+};
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react";
+import { DEFAULT_CACHE_LIMIT_BYTES, getStemCache, StemCacheSnapshot } from "./cache";
+
+// =================== REACT BINDINGS ===================
+
+const EMPTY_CACHE: StemCacheSnapshot = { entries: [], totalBytes: 0, limitBytes: DEFAULT_CACHE_LIMIT_BYTES };
+
+const subscribe = (listener: () => void) => getStemCache().subscribe(listener);
+const getSnapshot = () => getStemCache().getSnapshot();
+
+export const useStemCache = (): StemCacheSnapshot => useSyncExternalStore(subscribe, getSnapshot, () => EMPTY_CACHE);
@@ -0,0 +1,62 @@
+import { connectGradioSpace, GradioFileData, loadGradioClient, runGradioJob } from "./gradio";
+
+// =================== TYPES ===================
+
+export interface StyleTransferParams {
+  model: string;
+  temperature: number;
+  // Offsets added to the first latent dimensions before decoding.
+  latentOffsets: number[];
+}
+
+export interface StyleTransferOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number | undefined) => void;
+}
+
+// =================== RAVE-n (GRADIO SPACE) ===================
+
+const SPACE = "ahk-d/RAVE-n";
+const ENDPOINT = "/style_transfer";
+
+export const LATENT_DIMENSIONS = 4;
+
+export const RAVE_MODELS = [
+  { value: "vintage", label: "Vintage" },
+  { value: "percussion", label: "Percussion" },
+  { value: "VCTK", label: "Voice (VCTK)" },
+  { value: "darbouka_onnx", label: "Darbouka" },
+  { value: "nasa", label: "NASA" },
+  { value: "musicnet", label: "MusicNet" },
+  { value: "sol_ordinario", label: "Strings (SOL)" },
+];
+
+export const DEFAULT_STYLE_PARAMS: StyleTransferParams = {
+  model: RAVE_MODELS[0].value,
+  temperature: 1,
+  latentOffsets: Array(LATENT_DIMENSIONS).fill(0),
+};
+
+// Sends the stem to the RAVE Space and returns the URL of the re-synthesised audio.
+export const runRaveStyleTransfer = async (
+  audio: Blob,
+  params: StyleTransferParams,
+  { signal, onProgress }: StyleTransferOptions = {}
+): Promise<string> => {
+  const [gradio, app] = await Promise.all([loadGradioClient(), connectGradioSpace(SPACE)]);
+
+  // Input order mirrors the Space's style_transfer(audio, model, temperature, *offsets).
+  const outputs = await runGradioJob(
+    app,
+    ENDPOINT,
+    [gradio.handle_file(audio), params.model, params.temperature, ...params.latentOffsets],
+    {
+      signal,
+      onStatus: (message) => onProgress?.(message.progress_data?.[0]?.progress ?? undefined),
+    }
+  );
+
+  const url = (outputs[0] as GradioFileData | null)?.url;
+  if (!url) throw new Error("RAVE returned no audio.");
+  return url;
+};
@@ -0,0 +1,14 @@
+import { useCallback, useRef } from "react";
+
+// =================== REACT BINDINGS ===================
+
+// A function with a stable identity that always runs the latest `callback`.
+// Effects list it as a dependency without re-running whenever the state the
+// callback closes over changes.
+export const useEventCallback = <Args extends unknown[], Result>(
+  callback: (...args: Args) => Result
+): ((...args: Args) => Result) => {
+  const latest = useRef(callback);
+  latest.current = callback;
+  return useCallback((...args: Args) => latest.current(...args), []);
+};
@@ -0,0 +1,13 @@
+import { useState, useSyncExternalStore } from "react";
+import { createHistory, History, HistoryState } from "./history";
+
+// =================== REACT BINDINGS ===================
+
+const SERVER_SNAPSHOT: HistoryState = { canUndo: false, canRedo: false };
+
+// One history per component instance, plus whether undo/redo are available.
+export const useHistory = <T>(isSame?: (a: T, b: T) => boolean): HistoryState & { history: History<T> } => {
+  const [history] = useState(() => createHistory<T>(isSame));
+  const state = useSyncExternalStore(history.subscribe, history.getSnapshot, () => SERVER_SNAPSHOT);
+  return { history, ...state };
+};